@@ -1,15 +1,74 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { GoogleGenAI, Modality, Type, FunctionDeclaration, LiveServerMessage, Blob } from '@google/genai';
-import { VerseData, SessionStatus } from './types';
+import { VerseData, SessionStatus, OutputState, UpdateMode, PendingVerse, SermonPlan, ScriptureReference, VerseSource, HistoryEntry, Keymap, OperatorAction, DisplayState, CaptionSegment, SessionMetrics, PassageVerse } from './types';
 import AnimatedMic from './components/AnimatedMic';
 import DisplayScreen from './components/DisplayScreen';
-import IWCLogo from './components/IWCLogo';
+import BrandLogo from './components/BrandLogo';
+import BibleImport from './components/BibleImport';
+import LivePreview from './components/LivePreview';
+import PendingQueue from './components/PendingQueue';
+import CueList from './components/CueList';
+import SermonPlanEditor from './components/SermonPlanEditor';
+import HistoryPanel from './components/HistoryPanel';
+import RehearsalControls from './components/RehearsalControls';
+import KeymapSheet from './components/KeymapSheet';
+import ParallelPicker from './components/ParallelPicker';
+import BilingualPicker from './components/BilingualPicker';
+import SettingsPanel from './components/SettingsPanel';
+import ThemePanel from './components/ThemePanel';
+import CaptionPanel from './components/CaptionPanel';
+import MetricsPanel from './components/MetricsPanel';
+import { useTheme } from './components/ThemeProvider';
 import { encode, decode, decodeAudioData } from './utils/audioUtils';
+import { parseReference, formatReference, isSameReference, stepReference } from './utils/scriptureParser';
+import { ensureTranslation, getTranslationError, getVerseCount } from './utils/bibleStore';
+import { verifyVerseText, resolveLocalVerse } from './utils/verseVerification';
+import { paginatePassage, toPassageVerses } from './utils/paginator';
+import { OutputPublisher, createOutputPublisher, openOutputWindow } from './utils/outputChannel';
+import { buildPlanInstruction, loadPlans } from './utils/sermonPlan';
+import { activeServiceId, beginServiceSession, endServiceSession, finishEntry, localDate, recordBlocked, recordShown, resumeService } from './utils/serviceHistory';
+import { getBackoffDelay } from './utils/backoff';
+import { AudioCapture, startAudioCapture } from './utils/audioCapture';
+import { LiveBackend, LiveSession, createGeminiBackend } from './utils/liveBackend';
+import { createMockBackend } from './utils/mockBackend';
+import { SessionRecorder, SessionRecording, createSessionRecorder } from './utils/sessionRecording';
+import { findAction, keyFromEvent, loadKeymap, saveKeymap } from './utils/keymap';
+import { ParallelSettings, loadParallelSettings, resolveParallels, saveParallelSettings } from './utils/parallelText';
+import { AppSettings, buildSystemInstruction, loadSettings, saveSettings } from './utils/settings';
+import { loadSecondaryLanguage, resolveSecondary, saveSecondaryLanguage } from './utils/bilingual';
+import { FollowAlong, createFollowAlong, slideWords } from './utils/followAlong';
+import { CaptionSettings, createCaptionBuilder, downloadTranscript, loadCaptionSettings, loadCaptions, outputCaption, saveCaptionSettings } from './utils/captions';
+import { createUpdateGovernor } from './utils/updateGovernor';
+import { createVoiceGate } from './utils/voiceActivity';
+import { MetricsCollector, createMetricsCollector, speechHeardAt } from './utils/sessionMetrics';
+import { RecitePlayback, estimateWordTimings, playRecitation } from './utils/reciteTiming';
+import { VOICE_HONORED_RESULTS, WAKE_GATED_COMMANDS, checkWakePhrase, createTranscriptWindow, logVoiceCommand } from './utils/voiceCommands';
 
 const INPUT_SAMPLE_RATE = 16000;
+// 100 ms of audio per realtime message
+const CAPTURE_FRAME_SIZE = 1600;
 const OUTPUT_SAMPLE_RATE = 24000;
-const MODEL_NAME = 'gemini-2.5-flash-native-audio-preview-12-2025';
-const TTS_MODEL = 'gemini-2.5-flash-preview-tts';
+const ACTIVE_PLAN_KEY = 'inspired-ai:activePlanId';
+const MAX_RECONNECT_ATTEMPTS = 8;
+const STABLE_CONNECTION_MS = 10000;
+// Verses the model is less sure of than this wait in the queue even in Auto mode
+const LOW_CONFIDENCE = 0.6;
+const MAX_ALTERNATIVES = 3;
+
+// Keeps the alternatives that parse, differ from the chosen reference and from each other
+const parseAlternatives = (value: unknown, chosen: ScriptureReference | null): ScriptureReference[] => {
+  const alternatives: ScriptureReference[] = [];
+  (Array.isArray(value) ? value : []).forEach(item => {
+    const reference = parseReference(String(item));
+    if (!reference || isSameReference(reference, chosen) || alternatives.some(a => isSameReference(a, reference))) return;
+    alternatives.push(reference);
+  });
+  return alternatives.slice(0, MAX_ALTERNATIVES);
+};
+
+const parseModelVerses = (value: unknown): PassageVerse[] | undefined => Array.isArray(value)
+  ? value.filter((v: any) => v?.text).map((v: any) => ({ number: Number(v.number) || undefined, text: String(v.text) }))
+  : undefined;
 
 const updateVerseDisplayFunction: FunctionDeclaration = {
   name: 'updateVerseDisplay',
@@ -20,6 +79,55 @@ const updateVerseDisplayFunction: FunctionDeclaration = {
       reference: { type: Type.STRING, description: 'The Bible verse reference (e.g., John 3:16).' },
       text: { type: Type.STRING, description: 'The verse text.' },
       translation: { type: Type.STRING, description: 'The translation name (e.g., NIV, KJV).' },
+      verses: {
+        type: Type.ARRAY,
+        description: 'For passages spanning several verses (e.g., Romans 8:28-39), each verse separately with its number, in order.',
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            number: { type: Type.INTEGER, description: 'The verse number.' },
+            text: { type: Type.STRING, description: 'The text of this verse.' },
+          },
+          required: ['number', 'text'],
+        },
+      },
+      secondaryText: {
+        type: Type.STRING,
+        description: 'When a Secondary Language is active, the verse rendered in that language.',
+      },
+      confidence: {
+        type: Type.NUMBER,
+        description: 'How sure you are that this is the reference the speaker meant, from 0 to 1.',
+      },
+      alternatives: {
+        type: Type.ARRAY,
+        description: 'Other references the speaker may have meant when the words were ambiguous (e.g., "1 John 1" for "John one"), most likely first.',
+        items: { type: Type.STRING },
+      },
+      parallel: {
+        type: Type.ARRAY,
+        description: 'When parallel translations are active, the same reference in each of them.',
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            translation: { type: Type.STRING, description: 'The parallel translation name.' },
+            text: { type: Type.STRING, description: 'The verse text in that translation.' },
+            verses: {
+              type: Type.ARRAY,
+              description: 'For passages, each verse in that translation with its number, as for the primary text.',
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  number: { type: Type.INTEGER, description: 'The verse number.' },
+                  text: { type: Type.STRING, description: 'The text of this verse.' },
+                },
+                required: ['number', 'text'],
+              },
+            },
+          },
+          required: ['translation', 'text'],
+        },
+      },
     },
     required: ['reference', 'text', 'translation'],
   },
@@ -37,43 +145,488 @@ const setTranslationFunction: FunctionDeclaration = {
   },
 };
 
+// Voice commands also report the speaker's words so the wake phrase can be checked and logged
+const voiceCommandFunction = (
+  name: string,
+  description: string,
+  properties: Record<string, any> = {},
+  required: string[] = [],
+): FunctionDeclaration => ({
+  name,
+  parameters: {
+    type: Type.OBJECT,
+    description,
+    properties: {
+      ...properties,
+      utterance: { type: Type.STRING, description: 'The exact words the speaker used, including the wake phrase.' },
+    },
+    required: [...required, 'utterance'],
+  },
+});
+
+const voiceCommandFunctions: FunctionDeclaration[] = [
+  voiceCommandFunction('setDisplayState', 'Changes what the audience screen shows. Use when the speaker asks to clear, blank or black out the screen, show the logo, or bring the verse back.', {
+    state: {
+      type: Type.STRING,
+      enum: Object.values(DisplayState),
+      description: 'VERSE restores the current verse, BLANK shows a black screen, LOGO shows only the church logo, CLEAR takes the verse down.',
+    },
+  }, ['state']),
+  voiceCommandFunction('lockDisplay', 'Turns Manual Lock on so detected verses no longer change the display.'),
+  voiceCommandFunction('unlockDisplay', 'Turns Manual Lock off so detected verses update the display again.'),
+  voiceCommandFunction('nextVerse', 'Moves to the next slide or verse.'),
+  voiceCommandFunction('previousVerse', 'Moves to the previous slide or verse.'),
+  voiceCommandFunction('goToVerse', 'Shows another verse of the chapter currently displayed.', {
+    verse: { type: Type.INTEGER, description: 'The verse number within the current chapter.' },
+  }, ['verse']),
+  voiceCommandFunction('readAloud', 'Recites the verse currently on screen.'),
+];
+
 const App: React.FC = () => {
   const [status, setStatus] = useState<SessionStatus>(SessionStatus.IDLE);
   const [isAuthorized, setIsAuthorized] = useState<boolean | null>(null);
   const [currentVerse, setCurrentVerse] = useState<VerseData | null>(null);
-  const [defaultTranslation, setDefaultTranslation] = useState<string>('NIV');
+  const [settings, setSettings] = useState<AppSettings>(loadSettings);
+  const [defaultTranslation, setDefaultTranslation] = useState<string>(settings.defaultTranslation);
   const [isReadingAloud, setIsReadingAloud] = useState(false);
+  const [isRecitePaused, setIsRecitePaused] = useState(false);
   const [activeWordIndex, setActiveWordIndex] = useState<number>(-1);
-  const [isLocked, setIsLocked] = useState(false);
+  const [updateMode, setUpdateMode] = useState<UpdateMode>(UpdateMode.AUTO);
+  const [pendingVerses, setPendingVerses] = useState<PendingVerse[]>([]);
   const [audioVolume, setAudioVolume] = useState(0);
+  const [slideIndex, setSlideIndex] = useState(0);
+  const [outputCount, setOutputCount] = useState(0);
+  const [activePlan, setActivePlan] = useState<SermonPlan | null>(null);
+  const [cueIndex, setCueIndex] = useState(-1);
+  const [isPlanEditorOpen, setIsPlanEditorOpen] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isThemeOpen, setIsThemeOpen] = useState(false);
+  const [rehearsal, setRehearsal] = useState<SessionRecording | null>(null);
+  const [isRecording, setIsRecording] = useState(false);
+  const [keymap, setKeymap] = useState<Keymap>(loadKeymap);
+  const [isKeymapOpen, setIsKeymapOpen] = useState(false);
+  const [displayState, setDisplayState] = useState(DisplayState.VERSE);
+  const [parallelSettings, setParallelSettings] = useState<ParallelSettings>(loadParallelSettings);
+  const [secondaryLanguage, setSecondaryLanguage] = useState<string | null>(loadSecondaryLanguage);
+  const [captionSettings, setCaptionSettings] = useState<CaptionSettings>(loadCaptionSettings);
+  const [captions, setCaptions] = useState<CaptionSegment[]>([]);
+  const [liveMetrics, setLiveMetrics] = useState<SessionMetrics | null>(null);
+  const [isMusicMode, setIsMusicMode] = useState(false);
+  const [isSendingAudio, setIsSendingAudio] = useState(false);
+  const [translationError, setTranslationError] = useState<string | null>(null);
+  const { theme } = useTheme();
+  const isPanelOpen = isHistoryOpen || isSettingsOpen || isThemeOpen || isPlanEditorOpen;
   
-  const sessionPromiseRef = useRef<Promise<any> | null>(null);
-  const audioContextsRef = useRef<{ input: AudioContext; output: AudioContext } | null>(null);
+  const sessionPromiseRef = useRef<Promise<LiveSession> | null>(null);
+  const backendRef = useRef<LiveBackend | null>(null);
+  const recorderRef = useRef<SessionRecorder | null>(null);
+  const outputContextRef = useRef<AudioContext | null>(null);
+  const captureRef = useRef<AudioCapture | null>(null);
   const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
   const nextStartTimeRef = useRef<number>(0);
   const micStreamRef = useRef<MediaStream | null>(null);
+  const outputPublisherRef = useRef<OutputPublisher | null>(null);
+  const historyEntryRef = useRef<HistoryEntry | null>(null);
+  const userStoppedRef = useRef(false);
+  const reconnectAttemptRef = useRef(0);
+  const reconnectTimerRef = useRef<number | null>(null);
+  const connectionIdRef = useRef(0);
+  const resumeHandleRef = useRef<string | null>(null);
+  const transcriptRef = useRef(createTranscriptWindow());
+  const followAlongRef = useRef<FollowAlong | null>(null);
+  const governorRef = useRef(createUpdateGovernor({
+    getSettings: () => settingsRef.current.governor,
+    getCurrent: () => ({ verse: currentVerseRef.current, shownAt: historyEntryRef.current?.shownAt ?? 0 }),
+  }));
+  // Rehearsals replay a recording, so their transcript, verses and commands are not saved as a real service's
+  const isRehearsingRef = useRef(false);
+  // The line in progress replaces itself in the list until a new one starts
+  const captionBuilderRef = useRef(createCaptionBuilder(segment => setCaptions(prev =>
+    prev[prev.length - 1]?.id === segment.id ? [...prev.slice(0, -1), segment] : [...prev, segment]), () => !isRehearsingRef.current));
+  const recitePlaybackRef = useRef<RecitePlayback | null>(null);
+  // The recitation whose speech is still being generated; stop and pause apply to it once it plays
+  const reciteRequestRef = useRef<{ cancelled: boolean; paused: boolean } | null>(null);
+  const metricsRef = useRef<MetricsCollector | null>(null);
+  const voiceGateRef = useRef(createVoiceGate(() => settingsRef.current.voiceGate));
+  const sendingAudioRef = useRef(false);
+  const autoAdvancedRef = useRef(false);
+  // Reference the operator or a voice command asked the model to supply; its update skips the lock and queue once
+  const requestedReferenceRef = useRef<ScriptureReference | null>(null);
 
   // Use refs to avoid stale closures in audio processing and tool callbacks
   const translationRef = useRef(defaultTranslation);
-  const lockRef = useRef(isLocked);
+  const updateModeRef = useRef(updateMode);
   const currentVerseRef = useRef(currentVerse);
   const statusRef = useRef(status);
+  const planRef = useRef(activePlan);
+  const parallelRef = useRef(parallelSettings);
+  const secondaryLanguageRef = useRef(secondaryLanguage);
+  const settingsRef = useRef(settings);
+  const musicModeRef = useRef(isMusicMode);
 
   useEffect(() => { translationRef.current = defaultTranslation; }, [defaultTranslation]);
-  useEffect(() => { lockRef.current = isLocked; }, [isLocked]);
+  useEffect(() => { updateModeRef.current = updateMode; }, [updateMode]);
+  useEffect(() => { musicModeRef.current = isMusicMode; }, [isMusicMode]);
+  // An update waiting in the governor was decided under the old mode
+  useEffect(() => { governorRef.current.cancel('cancelled_by_mode_change'); }, [updateMode]);
   useEffect(() => { currentVerseRef.current = currentVerse; }, [currentVerse]);
   useEffect(() => { statusRef.current = status; }, [status]);
+  useEffect(() => { planRef.current = activePlan; }, [activePlan]);
+  useEffect(() => { parallelRef.current = parallelSettings; }, [parallelSettings]);
+  useEffect(() => { secondaryLanguageRef.current = secondaryLanguage; }, [secondaryLanguage]);
+  useEffect(() => { settingsRef.current = settings; }, [settings]);
+
+  const isLocked = updateMode === UpdateMode.LOCKED;
+
+  const slides = useMemo(
+    () => currentVerse ? paginatePassage(currentVerse.verses ?? [{ text: currentVerse.text }]) : [],
+    [currentVerse],
+  );
+
+  useEffect(() => { setSlideIndex(0); }, [currentVerse]);
+
+  // Each slide is followed afresh; words heard before it went up do not count
+  useEffect(() => {
+    followAlongRef.current = currentVerse ? createFollowAlong(slideWords(slides[slideIndex], currentVerse.text)) : null;
+    autoAdvancedRef.current = false;
+    // A recitation belongs to the slide it started on
+    handleStopRecite();
+  }, [slides, slideIndex]);
+
+  // A cleared display comes back with the next verse; blank and logo hold until the operator lifts them
+  useEffect(() => {
+    if (currentVerse) setDisplayState(state => state === DisplayState.CLEAR ? DisplayState.VERSE : state);
+  }, [currentVerse]);
+
+  const changeDisplayState = (state: DisplayState) => {
+    if (state === DisplayState.CLEAR) setCurrentVerse(null);
+    setDisplayState(state);
+  };
+
+  const liveOutput: OutputState = useMemo(() => ({
+    verse: currentVerse,
+    slide: slides[slideIndex] ?? null,
+    slideIndex,
+    slideCount: slides.length,
+    activeWordIndex,
+    displayState,
+    parallelLayout: parallelSettings.layout,
+    caption: captionSettings.onOutput && status === SessionStatus.LISTENING && captions.length ? outputCaption(captions[captions.length - 1].text) : null,
+  }), [currentVerse, slides, slideIndex, activeWordIndex, displayState, parallelSettings.layout, captionSettings.onOutput, status, captions]);
+
+  useEffect(() => {
+    const publisher = createOutputPublisher(setOutputCount);
+    outputPublisherRef.current = publisher;
+    return () => publisher.close();
+  }, []);
+
+  useEffect(() => { outputPublisherRef.current?.publish(liveOutput); }, [liveOutput]);
+
+  // Log each verse that goes live and how long it stayed up; rehearsal verses are only timed
+  useEffect(() => {
+    if (historyEntryRef.current) finishEntry(historyEntryRef.current);
+    historyEntryRef.current = currentVerse ? recordShown(currentVerse, !isRehearsingRef.current) : null;
+  }, [currentVerse]);
+
+  useEffect(() => {
+    const closeEntry = () => {
+      if (historyEntryRef.current) finishEntry(historyEntryRef.current);
+      captionBuilderRef.current.flush();
+      metricsRef.current?.save();
+    };
+    window.addEventListener('pagehide', closeEntry);
+    return () => window.removeEventListener('pagehide', closeEntry);
+  }, []);
+
+  // Refresh the dashboard while a session runs
+  useEffect(() => {
+    if (status !== SessionStatus.LISTENING && status !== SessionStatus.RECONNECTING) return;
+    const timer = window.setInterval(() => {
+      if (metricsRef.current) setLiveMetrics(metricsRef.current.snapshot());
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [status]);
+
+  // Pick up the transcript of the service in progress after a reload
+  useEffect(() => {
+    resumeService()
+      .then(() => {
+        const id = activeServiceId();
+        return id ? loadCaptions({ id, serviceDate: localDate(Date.now()) }) : [];
+      })
+      .then(saved => setCaptions(prev => [...saved, ...prev]))
+      .catch(err => console.warn('Could not load captions:', err));
+  }, []);
+
+  // Warm the local text store so the first verse can be verified without a fetch
+  useEffect(() => {
+    ensureTranslation(defaultTranslation).then(() => setTranslationError(getTranslationError(defaultTranslation)));
+  }, [defaultTranslation]);
 
   // Sync state to the model when critical flags change
   useEffect(() => {
     if (sessionPromiseRef.current && status === SessionStatus.LISTENING) {
       sessionPromiseRef.current.then(session => {
         session.sendRealtimeInput({ 
-          parts: [{ text: `[SYSTEM_SYNC] Manual Lock is ${isLocked ? 'ON' : 'OFF'}. Current Reference: ${currentVerse?.reference || 'None'}.` }] 
+          text: `[SYSTEM_SYNC] Manual Lock is ${isLocked ? 'ON' : 'OFF'}. Operator Approval is ${updateMode === UpdateMode.APPROVE ? 'ON' : 'OFF'}. Default Translation: ${defaultTranslation}. Parallel Translations: ${parallelSettings.translations.join(', ') || 'None'}. Secondary Language: ${secondaryLanguage || 'None'}. Current Reference: ${currentVerse?.reference || 'None'}. Screen: ${displayState}.` 
         });
       }).catch(() => {});
     }
-  }, [isLocked, status, currentVerse?.reference]);
+  }, [updateMode, status, currentVerse?.reference, defaultTranslation, displayState, parallelSettings.translations, secondaryLanguage]);
+
+  // Parallels never repeat the primary translation
+  const getParallelTranslations = (primary: string) =>
+    parallelRef.current.translations.filter(t => t.toUpperCase() !== primary.toUpperCase());
+
+  const handleChangeParallel = (settings: ParallelSettings) => {
+    setParallelSettings(settings);
+    saveParallelSettings(settings);
+  };
+
+  const handleSaveSettings = (next: AppSettings) => {
+    if (next.defaultTranslation !== settings.defaultTranslation) setDefaultTranslation(next.defaultTranslation);
+    setSettings(next);
+    saveSettings(next);
+    setIsSettingsOpen(false);
+  };
+
+  const handleChangeCaptionSettings = (next: CaptionSettings) => {
+    setCaptionSettings(next);
+    saveCaptionSettings(next);
+  };
+
+  const handleExportCaptions = (format: 'txt' | 'vtt') => {
+    const id = activeServiceId();
+    const segments = captions.filter(c => c.serviceId === id);
+    if (!id || !segments.length) return;
+    downloadTranscript(segments, { id, serviceDate: segments[0].serviceDate, startedAt: segments[0].startedAt }, format);
+  };
+
+  const handleChangeSecondaryLanguage = (language: string | null) => {
+    setSecondaryLanguage(language);
+    saveSecondaryLanguage(language);
+  };
+
+  // Reload the plan chosen for this service
+  useEffect(() => {
+    const planId = localStorage.getItem(ACTIVE_PLAN_KEY);
+    if (!planId) return;
+    loadPlans()
+      .then(plans => setActivePlan(plans.find(p => p.id === planId) ?? null))
+      .catch(err => console.warn('Could not load sermon plans:', err));
+  }, []);
+
+  const handleUsePlan = (plan: SermonPlan | null) => {
+    setActivePlan(plan);
+    setCueIndex(-1);
+    if (plan) localStorage.setItem(ACTIVE_PLAN_KEY, plan.id);
+    else localStorage.removeItem(ACTIVE_PLAN_KEY);
+    if (statusRef.current === SessionStatus.LISTENING) {
+      sendSystemSync(plan ? buildPlanInstruction(plan) : 'The sermon plan was cleared.');
+    }
+  };
+
+  const sendSystemSync = (text: string) => {
+    sessionPromiseRef.current?.then(session => {
+      session.sendRealtimeInput({ text: `[SYSTEM_SYNC] ${text}` });
+    }).catch(() => {});
+  };
+
+  const approvePending = (id: string) => {
+    const item = pendingVerses.find(p => p.id === id);
+    if (!item) return;
+    setPendingVerses(prev => prev.filter(p => p.id !== id));
+    governorRef.current.cancel('superseded_by_operator');
+    setCurrentVerse(item.verse);
+    sendSystemSync(`Operator approved ${item.verse.reference}; it is now displayed.`);
+  };
+
+  const rejectPending = (id: string) => {
+    const item = pendingVerses.find(p => p.id === id);
+    if (!item) return;
+    setPendingVerses(prev => prev.filter(p => p.id !== id));
+    sendSystemSync(`Operator rejected ${item.verse.reference}; it was not displayed.`);
+  };
+
+  // Swaps in another reading of an uncertain reference, for the live verse or one held in the queue
+  const chooseAlternative = (reference: ScriptureReference, pendingId?: string) => {
+    const item = pendingId ? pendingVerses.find(p => p.id === pendingId) : undefined;
+    if (item) {
+      setPendingVerses(prev => prev.filter(p => p.id !== item.id));
+      sendSystemSync(`Operator rejected ${item.verse.reference}; it was not displayed. ${formatReference(reference)} is shown in its place.`);
+    }
+    displayReference(reference);
+  };
+
+  const handleChangeKeymap = (next: Keymap) => {
+    setKeymap(next);
+    saveKeymap(next);
+  };
+
+  // Returns false when the action had nothing to act on, so the key keeps its usual meaning
+  const runAction = (action: OperatorAction): boolean => {
+    switch (action) {
+      case OperatorAction.TOGGLE_SESSION:
+        if (status === SessionStatus.LISTENING || status === SessionStatus.RECONNECTING) stopSession();
+        else if (status !== SessionStatus.CONNECTING) startSession();
+        else return false;
+        return true;
+      case OperatorAction.TOGGLE_LOCK:
+        setUpdateMode(mode => mode === UpdateMode.LOCKED ? UpdateMode.AUTO : UpdateMode.LOCKED);
+        return true;
+      case OperatorAction.NEXT:
+        if (!currentVerse) return false;
+        handleNext();
+        return true;
+      case OperatorAction.PREV:
+        if (!currentVerse) return false;
+        handlePrev();
+        return true;
+      case OperatorAction.GO_LIVE:
+        if (!pendingVerses.length) return false;
+        approvePending(pendingVerses[0].id);
+        return true;
+      case OperatorAction.DISCARD:
+        if (!pendingVerses.length) return false;
+        rejectPending(pendingVerses[0].id);
+        return true;
+      case OperatorAction.BLANK:
+        changeDisplayState(displayState === DisplayState.BLANK ? DisplayState.VERSE : DisplayState.BLANK);
+        return true;
+      case OperatorAction.LOGO:
+        changeDisplayState(displayState === DisplayState.LOGO ? DisplayState.VERSE : DisplayState.LOGO);
+        return true;
+      case OperatorAction.CLEAR:
+        changeDisplayState(DisplayState.CLEAR);
+        return true;
+      case OperatorAction.RECITE:
+        if (!currentVerse) return false;
+        if (isReadingAloud) handleToggleRecitePause();
+        else handleReadAloud();
+        return true;
+      case OperatorAction.STOP_RECITE:
+        if (!isReadingAloud) return false;
+        handleStopRecite();
+        return true;
+      case OperatorAction.TOGGLE_MUSIC:
+        setIsMusicMode(on => !on);
+        return true;
+    }
+  };
+
+  // One listener for the whole app; the ref always points at this render's handlers
+  const runActionRef = useRef(runAction);
+  runActionRef.current = runAction;
+
+  // Shows the reference from the local store, or leaves the model to supply its text
+  const showByVoice = async (reference: ScriptureReference): Promise<string> => {
+    if (await showLocalReference(reference, VerseSource.AI)) return 'success';
+    requestedReferenceRef.current = reference;
+    return 'awaiting_verse_text';
+  };
+
+  const stepByVoice = (delta: 1 | -1): Promise<string> | string => {
+    if (delta > 0 ? slideIndex < slides.length - 1 : slideIndex > 0) {
+      setSlideIndex(slideIndex + delta);
+      return 'success';
+    }
+    if (!currentVerse) return 'no_verse_displayed';
+    const target = currentVerse.location ? stepReference(currentVerse.location, delta, getVerseCount) : null;
+    return target ? showByVoice(target) : 'reference_not_recognized';
+  };
+
+  // Returns the tool result reported back to the model
+  const runVoiceCommand = async (name: string, args: Record<string, unknown>): Promise<string> => {
+    switch (name) {
+      case 'setDisplayState': {
+        const state = String(args.state || '').toUpperCase() as DisplayState;
+        if (!Object.values(DisplayState).includes(state)) return 'unknown_display_state';
+        changeDisplayState(state);
+        return 'success';
+      }
+      case 'lockDisplay':
+        setUpdateMode(UpdateMode.LOCKED);
+        return 'success';
+      case 'unlockDisplay':
+        setUpdateMode(UpdateMode.AUTO);
+        return 'success';
+      case 'nextVerse':
+        return stepByVoice(1);
+      case 'previousVerse':
+        return stepByVoice(-1);
+      case 'goToVerse': {
+        const location = currentVerse?.location;
+        const verse = Number(args.verse);
+        if (!location) return 'no_chapter_displayed';
+        const verseCount = getVerseCount(location.bookId, location.chapter) ?? Infinity;
+        if (!Number.isInteger(verse) || verse < 1 || verse > verseCount) return 'invalid_verse_number';
+        return showByVoice({ bookId: location.bookId, chapter: location.chapter, verseStart: verse });
+      }
+      case 'readAloud':
+        if (!currentVerse) return 'no_verse_displayed';
+        if (isReadingAloud) return 'already_reciting';
+        handleReadAloud();
+        return 'success';
+      default:
+        return 'unknown_command';
+    }
+  };
+
+  const runVoiceCommandRef = useRef(runVoiceCommand);
+  runVoiceCommandRef.current = runVoiceCommand;
+
+  // Highlights the word the preacher is reading and moves on when they reach the end of the slide
+  const followTranscript = (text: string) => {
+    const followAlong = followAlongRef.current;
+    // Recite drives the highlight itself, and its audio would be heard back through the mic
+    if (!followAlong || isReadingAloud || displayState !== DisplayState.VERSE) return;
+    const position = followAlong.hear(text);
+    if (position >= 0) setActiveWordIndex(position);
+
+    if (!followAlong.nearEnd() || autoAdvancedRef.current) return;
+    if (!settings.autoAdvance || updateMode !== UpdateMode.AUTO) return;
+    autoAdvancedRef.current = true;
+    if (slideIndex < slides.length - 1) {
+      setSlideIndex(slideIndex + 1);
+      return;
+    }
+    const target = currentVerse?.location ? stepReference(currentVerse.location, 1, getVerseCount) : null;
+    if (target) displayReference(target, VerseSource.FOLLOW);
+    else requestAdjacentVerse(1);
+  };
+
+  const followTranscriptRef = useRef(followTranscript);
+  followTranscriptRef.current = followTranscript;
+
+  useEffect(() => {
+    const handleKey = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement;
+      if (event.defaultPrevented || target.closest('input, textarea, select, [contenteditable]')) return;
+      // Shortcuts would otherwise fire behind an open panel
+      if (isPanelOpen) return;
+      if (event.key === '?') {
+        setIsKeymapOpen(open => !open);
+        return;
+      }
+      // The cheat sheet handles its own keys while it is open
+      if (isKeymapOpen) return;
+      const key = keyFromEvent(event);
+      const action = key && findAction(keymap, key);
+      if (!action) return;
+      // Enter and Space belong to a focused button or link
+      if ((key === 'Enter' || key === 'Space') && target.closest('button, a[href], [role="button"]')) return;
+      // Clickers and Space would otherwise scroll the page
+      if (runActionRef.current(action)) event.preventDefault();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [keymap, isPanelOpen, isKeymapOpen]);
+
+  useEffect(() => {
+    const { appTitle, organization } = theme.labels;
+    document.title = organization ? `${appTitle} | ${organization}` : appTitle;
+  }, [theme]);
 
   useEffect(() => {
     const checkAuth = async () => {
@@ -111,85 +664,242 @@ const App: React.FC = () => {
   };
 
   const startSession = async () => {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
     setStatus(SessionStatus.CONNECTING);
     stopAllAudio();
+    userStoppedRef.current = false;
+    reconnectAttemptRef.current = 0;
+    resumeHandleRef.current = null;
+
+    // The backend is fixed for the whole session so reconnects replay or record consistently
+    const backend = rehearsal ? createMockBackend(rehearsal) : createGeminiBackend(process.env.API_KEY);
+    isRehearsingRef.current = rehearsal !== null;
+    recorderRef.current = isRecording ? createSessionRecorder(backend) : null;
+    backendRef.current = recorderRef.current?.backend ?? backend;
+    if (rehearsal === null) beginServiceSession();
+    metricsRef.current = createMetricsCollector(settingsRef.current.liveModel, rehearsal !== null);
 
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const { inputDeviceId } = settingsRef.current;
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: inputDeviceId ? { deviceId: { exact: inputDeviceId } } : true });
       micStreamRef.current = stream;
 
-      const inputCtx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: INPUT_SAMPLE_RATE });
       const outputCtx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: OUTPUT_SAMPLE_RATE });
-      
-      await inputCtx.resume();
       await outputCtx.resume();
-      audioContextsRef.current = { input: inputCtx, output: outputCtx };
+      outputContextRef.current = outputCtx;
+
+      // Capture outlives individual Live connections so a reconnect never touches the mic
+      captureRef.current = await startAudioCapture(stream, {
+        targetSampleRate: INPUT_SAMPLE_RATE,
+        frameSize: CAPTURE_FRAME_SIZE,
+        onLevel: level => {
+          if (statusRef.current === SessionStatus.LISTENING) setAudioVolume(level);
+        },
+        onFrame: (pcm, level) => {
+          // Critical: Use statusRef to check active state, NOT stale 'status' variable
+          if (statusRef.current !== SessionStatus.LISTENING || !sessionPromiseRef.current) return;
+          // Music mode holds everything back; otherwise the gate drops the silence between speech
+          if (musicModeRef.current) voiceGateRef.current.reset();
+          const frames = musicModeRef.current ? [] : voiceGateRef.current.process(pcm, level);
+          setSendingAudio(frames.length > 0);
+          frames.forEach(frame => {
+            const pcmBlob: Blob = {
+              data: encode(new Uint8Array(frame.buffer, frame.byteOffset, frame.byteLength)),
+              mimeType: `audio/pcm;rate=${INPUT_SAMPLE_RATE}`,
+            };
+            sessionPromiseRef.current?.then(session => {
+              session.sendRealtimeInput({ media: pcmBlob });
+              metricsRef.current?.audioSent(frame.byteLength);
+            }).catch(() => {});
+          });
+        },
+      });
+
+      connectSession();
+    } catch (err) { 
+      console.error("Failed to start session:", err);
+      setStatus(SessionStatus.ERROR); 
+    }
+  };
+
+  // Called per frame, so state only changes when streaming starts or stops
+  const setSendingAudio = (sending: boolean) => {
+    if (sending === sendingAudioRef.current) return;
+    sendingAudioRef.current = sending;
+    setIsSendingAudio(sending);
+    // Lets the model finish the turn now instead of waiting for silence that never arrives
+    if (!sending) {
+      sessionPromiseRef.current?.then(session => session.sendRealtimeInput({ audioStreamEnd: true })).catch(() => {});
+    }
+  };
+
+  // The next connection starts gated, with no stale pre-roll from before
+  const resetSendingAudio = () => {
+    voiceGateRef.current.reset();
+    sendingAudioRef.current = false;
+    setIsSendingAudio(false);
+  };
+
+  // Retries a dropped connection with exponential backoff, leaving the display untouched
+  const handleConnectionLost = () => {
+    if (userStoppedRef.current || reconnectTimerRef.current !== null) return;
+    sessionPromiseRef.current = null;
+    setAudioVolume(0);
+    resetSendingAudio();
 
-      const sessionPromise = ai.live.connect({
-        model: MODEL_NAME,
+    const attempt = reconnectAttemptRef.current;
+    if (attempt >= MAX_RECONNECT_ATTEMPTS) {
+      releaseAudio();
+      saveRecording();
+      saveMetrics();
+      captionBuilderRef.current.flush();
+      if (!isRehearsingRef.current) endServiceSession();
+      setStatus(SessionStatus.ERROR);
+      return;
+    }
+    // A stale resumption handle would fail every retry; fall back to a fresh session restored via [SYSTEM_SYNC]
+    if (attempt >= 2) resumeHandleRef.current = null;
+    reconnectAttemptRef.current = attempt + 1;
+    metricsRef.current?.reconnect();
+    setStatus(SessionStatus.RECONNECTING);
+    reconnectTimerRef.current = window.setTimeout(() => {
+      reconnectTimerRef.current = null;
+      connectSession();
+    }, getBackoffDelay(attempt));
+  };
+
+  const connectSession = () => {
+    const backend = backendRef.current;
+    if (!backend) return;
+    // Callbacks from superseded connections must not trigger another reconnect
+    const connectionId = ++connectionIdRef.current;
+    const isCurrent = () => connectionId === connectionIdRef.current;
+
+    try {
+      const sessionPromise = backend.connect({
+        model: settingsRef.current.liveModel,
         callbacks: {
           onopen: () => {
+            if (!isCurrent()) return;
             setStatus(SessionStatus.LISTENING);
-            const source = inputCtx.createMediaStreamSource(stream);
-            const scriptProcessor = inputCtx.createScriptProcessor(4096, 1, 1);
-            
-            scriptProcessor.onaudioprocess = (event) => {
-              // Critical: Use statusRef to check active state, NOT stale 'status' variable
-              if (statusRef.current !== SessionStatus.LISTENING) return;
-
-              const inputData = event.inputBuffer.getChannelData(0);
-              
-              // Calculate volume for UI waveform
-              let sum = 0;
-              for (let i = 0; i < inputData.length; i++) sum += inputData[i] * inputData[i];
-              setAudioVolume(Math.sqrt(sum / inputData.length));
-
-              // Encode and send PCM data
-              const l = inputData.length;
-              const int16 = new Int16Array(l);
-              for (let i = 0; i < l; i++) int16[i] = inputData[i] * 32768;
-              const pcmBlob: Blob = {
-                data: encode(new Uint8Array(int16.buffer)),
-                mimeType: 'audio/pcm;rate=16000',
-              };
-              
-              if (sessionPromiseRef.current) {
-                sessionPromiseRef.current.then((session: any) => {
-                  session.sendRealtimeInput({ media: pcmBlob });
-                }).catch(() => {});
-              }
-            };
-            source.connect(scriptProcessor);
-            scriptProcessor.connect(inputCtx.destination);
+            // Only a connection that stays up earns a fresh set of retries; one the server drops at once keeps counting
+            window.setTimeout(() => {
+              if (isCurrent() && statusRef.current === SessionStatus.LISTENING) reconnectAttemptRef.current = 0;
+            }, STABLE_CONNECTION_MS);
           },
           onmessage: async (message: LiveServerMessage) => {
+            if (!isCurrent()) return;
+            if (message.sessionResumptionUpdate?.resumable && message.sessionResumptionUpdate.newHandle) {
+              resumeHandleRef.current = message.sessionResumptionUpdate.newHandle;
+            }
+            if (message.usageMetadata) metricsRef.current?.usage(message.usageMetadata);
+            if (message.goAway) {
+              // The server is about to drop us; move to a fresh connection now
+              sessionPromise.then(session => { try { session.close(); } catch (e) {} });
+              handleConnectionLost();
+              return;
+            }
+            const transcription = message.serverContent?.inputTranscription;
+            if (transcription?.text) {
+              transcriptRef.current.append(transcription.text);
+              followTranscriptRef.current(transcription.text);
+            }
+            if (transcription) captionBuilderRef.current.append(transcription.text ?? '', transcription.finished);
             if (message.toolCall) {
-              for (const fc of message.toolCall.functionCalls) {
-                if (fc.name === 'updateVerseDisplay') {
+              // The session may have closed while a call was handled; a late response is dropped
+              const sendToolResult = (fc: { id?: string; name?: string }, response: Record<string, unknown>) => {
+                sessionPromise.then(session => {
+                  session.sendToolResponse({ functionResponses: { id: fc.id, name: fc.name, response } });
+                }).catch(() => {});
+              };
+              for (const fc of message.toolCall.functionCalls ?? []) {
+                if (fc.name && WAKE_GATED_COMMANDS.has(fc.name)) {
+                  const args = (fc.args ?? {}) as Record<string, unknown>;
+                  const utterance = String(args.utterance ?? '');
+                  const rejection = checkWakePhrase(utterance, transcriptRef.current.recent(), settingsRef.current.wakePhrase);
+                  const result = rejection ?? await runVoiceCommandRef.current(fc.name, args);
+                  const honored = VOICE_HONORED_RESULTS.has(result);
+                  metricsRef.current?.toolCall(fc.name, result);
+                  if (!isRehearsingRef.current) logVoiceCommand({ name: fc.name, args, utterance, honored, reason: honored ? undefined : result });
+                  // The model is told which reference to send; that one update goes live even while locked
+                  const requested = result === 'awaiting_verse_text' && requestedReferenceRef.current;
+                  sendToolResult(fc, requested ? { result, reference: formatReference(requested) } : { result });
+                } else if (fc.name === 'updateVerseDisplay') {
                   const args = fc.args as any;
+                  const location = parseReference(args.reference || '');
+                  // Taken before the awaits below so the latency covers verification too
+                  const heardAt = speechHeardAt(transcriptRef.current.fragments(), location);
+                  const translation = args.translation || translationRef.current;
+                  const modelVerses = parseModelVerses(args.verses);
+                  const modelText = args.text || modelVerses?.map(v => v.text).join(' ') || '...';
+                  // Never project model-supplied text when the local store has the canonical verse
+                  const { text, verification, verses } = await verifyVerseText(location, modelText, translation);
+                  const verse: VerseData = {
+                    reference: location ? formatReference(location) : args.reference || '...',
+                    text,
+                    translation,
+                    location: location ?? undefined,
+                    verification,
+                    verses: verses ?? toPassageVerses(location, text, modelVerses),
+                    source: VerseSource.AI,
+                  };
+                  const confidence = typeof args.confidence === 'number' ? Math.min(1, Math.max(0, args.confidence)) : undefined;
+                  if (confidence !== undefined) verse.confidence = confidence;
+                  const alternatives = parseAlternatives(args.alternatives, location);
+                  if (alternatives.length) verse.alternatives = alternatives;
+                  const modelParallels = Array.isArray(args.parallel)
+                    ? args.parallel.filter((p: any) => p?.translation && p?.text).map((p: any) => ({
+                      translation: String(p.translation),
+                      text: String(p.text),
+                      verses: parseModelVerses(p.verses),
+                    }))
+                    : [];
+                  const parallels = await resolveParallels(location, getParallelTranslations(translation), modelParallels);
+                  if (parallels.length) verse.parallels = parallels;
+                  if (secondaryLanguageRef.current) {
+                    const secondary = await resolveSecondary(location, secondaryLanguageRef.current, args.secondaryText ? String(args.secondaryText) : undefined);
+                    if (secondary) verse.secondary = secondary;
+                  }
                   // Only update if not locked or if it's a direct user query (the model handles logic, but we enforce here)
-                  if (!lockRef.current) {
-                    setCurrentVerse({
-                      reference: args.reference || '...',
-                      text: args.text || '...',
-                      translation: args.translation || translationRef.current,
+                  const sendResult = (result: string) => sendToolResult(fc, { result, verification });
+                  const respond = (result: string) => {
+                    metricsRef.current?.toolCall('updateVerseDisplay', result);
+                    sendResult(result);
+                  };
+                  const requested = isSameReference(requestedReferenceRef.current, location);
+                  if (requested) {
+                    requestedReferenceRef.current = null;
+                    governorRef.current.cancel('superseded_by_operator');
+                    setCurrentVerse(verse);
+                    respond('success');
+                  } else if (updateModeRef.current === UpdateMode.LOCKED) {
+                    if (!isRehearsingRef.current) recordBlocked(verse);
+                    respond('update_blocked_by_manual_lock');
+                  } else if (updateModeRef.current === UpdateMode.APPROVE || (confidence ?? 1) < LOW_CONFIDENCE) {
+                    // Approval or rejection is reported later through [SYSTEM_SYNC]
+                    const lowConfidence = updateModeRef.current !== UpdateMode.APPROVE;
+                    setPendingVerses(prev => [...prev, { id: fc.id || crypto.randomUUID(), verse, receivedAt: Date.now(), lowConfidence }]);
+                    respond(lowConfidence ? 'held_for_operator_low_confidence' : 'queued_for_operator_approval');
+                  } else {
+                    // Answered at once: the governor may hold the verse for seconds and a pending call blocks
+                    // the model's turn. A verse that never goes up is reported through [SYSTEM_SYNC]
+                    sendResult('pending_display');
+                    governorRef.current.submit(verse).then(suppressed => {
+                      metricsRef.current?.toolCall('updateVerseDisplay', suppressed ?? 'success');
+                      if (!suppressed) {
+                        setCurrentVerse(verse);
+                        if (heardAt !== null) metricsRef.current?.latency(Date.now() - heardAt);
+                      } else if (suppressed !== 'superseded_by_newer_update') {
+                        // A superseded verse was replaced by the model's own later call
+                        sendSystemSync(`${verse.reference} was not displayed (${suppressed}).`);
+                      }
                     });
                   }
-                  sessionPromise.then((session: any) => {
-                    session.sendToolResponse({
-                      functionResponses: { id: fc.id, name: fc.name, response: { result: lockRef.current ? "update_blocked_by_manual_lock" : "success" } }
-                    });
-                  });
                 } else if (fc.name === 'setTranslation') {
                   const args = fc.args as any;
-                  const newTranslation = args.translation || 'NIV';
+                  const newTranslation = args.translation || settingsRef.current.defaultTranslation;
                   setDefaultTranslation(newTranslation);
-                  sessionPromise.then((session: any) => {
-                    session.sendToolResponse({
-                      functionResponses: { id: fc.id, name: fc.name, response: { currentTranslation: newTranslation } }
-                    });
-                  });
+                  metricsRef.current?.toolCall(fc.name, 'success');
+                  sendToolResult(fc, { currentTranslation: newTranslation });
                 }
               }
             }
@@ -197,11 +907,13 @@ const App: React.FC = () => {
             // Handle Model Audio Output
             const audioData = message.serverContent?.modelTurn?.parts?.find(p => p.inlineData)?.inlineData?.data;
             if (audioData) {
-              const oCtx = audioContextsRef.current?.output;
+              const oCtx = outputContextRef.current;
               if (oCtx) {
                 if (oCtx.state === 'suspended') await oCtx.resume();
                 nextStartTimeRef.current = Math.max(nextStartTimeRef.current, oCtx.currentTime);
-                const buffer = await decodeAudioData(decode(audioData), oCtx, OUTPUT_SAMPLE_RATE, 1);
+                const bytes = decode(audioData);
+                metricsRef.current?.audioReceived(bytes.byteLength);
+                const buffer = await decodeAudioData(bytes, oCtx, OUTPUT_SAMPLE_RATE, 1);
                 const source = oCtx.createBufferSource();
                 source.buffer = buffer;
                 source.connect(oCtx.destination);
@@ -215,133 +927,229 @@ const App: React.FC = () => {
           },
           onerror: (e: any) => {
             console.error("Inspired AI Session Error:", e);
-            setStatus(SessionStatus.ERROR);
+            if (isCurrent()) handleConnectionLost();
           },
           onclose: () => { 
-            setStatus(SessionStatus.IDLE);
-            setAudioVolume(0);
-            sessionPromiseRef.current = null;
+            if (isCurrent()) handleConnectionLost();
           },
         },
         config: {
           responseModalities: [Modality.AUDIO],
-          systemInstruction: `YOU ARE "INSPIRED AI": THE PROPHETIC BIBLE ASSISTANT FOR IWC.
-          
-          CORE CAPABILITY: PERFECT SCRIPTURE RECALL.
-          
-          PRIORITY 1: INTELLIGENT THEMATIC SEARCH
-          - IF the user asks "Find me the scripture that says...", "Get me the verse that talks about...", or "What verse talks about [topic]":
-          - You MUST identify the correct verse from your internal knowledge immediately.
-          - CALL 'updateVerseDisplay' with the Reference, Text, and Translation (${translationRef.current}).
-          - Speed is critical: Goal is < 2 seconds.
-          - DO NOT explain yourself. DO NOT say "Searching...". JUST CALL THE TOOL.
-
-          PRIORITY 2: BIBLE VERSE TRACKING
-          - Listen for any mention of a Book, Chapter, or Verse.
-          - Update the display instantly when detected.
-
-          PRIORITY 3: PREDICTIVE AUTO-ADVANCE
-          - If the user is reading the current verse (${currentVerseRef.current?.reference || 'none'}):
-          - TRIGGER: At the exact moment they speak the SECOND-TO-LAST WORD, call 'updateVerseDisplay' for the NEXT sequential verse.
-          - EXCEPTION: Ignore this if "Manual Lock" is ON.
-
-          TONE: Invisible. Helpful. Lightning Fast. Accurate.
-          Never speak audio unless specifically asked to recite or explain something.`,
-          tools: [{ functionDeclarations: [updateVerseDisplayFunction, setTranslationFunction] }],
-          speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Zephyr' } } },
+          sessionResumption: { handle: resumeHandleRef.current ?? undefined },
+          // Transcripts drive the captions, confirm the wake phrase and let the console follow the reading
+          inputAudioTranscription: {},
+          systemInstruction: buildSystemInstruction(
+            settingsRef.current,
+            { translation: translationRef.current, currentReference: currentVerseRef.current?.reference || 'none' },
+            buildPlanInstruction(planRef.current),
+          ),
+          tools: [{ functionDeclarations: [updateVerseDisplayFunction, setTranslationFunction, ...voiceCommandFunctions] }],
+          speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: settingsRef.current.voice } } },
         },
       });
       sessionPromiseRef.current = sessionPromise;
+      sessionPromise.catch(err => {
+        console.error("Failed to connect session:", err);
+        if (isCurrent()) handleConnectionLost();
+      });
     } catch (err) { 
-      console.error("Failed to start session:", err);
-      setStatus(SessionStatus.ERROR); 
+      console.error("Failed to connect session:", err);
+      handleConnectionLost();
     }
   };
 
+  const releaseAudio = () => {
+    if (micStreamRef.current) micStreamRef.current.getTracks().forEach(t => t.stop());
+    captureRef.current?.stop();
+    captureRef.current = null;
+    outputContextRef.current?.close().catch(() => {});
+    outputContextRef.current = null;
+  };
+
+  const saveRecording = () => {
+    recorderRef.current?.download().catch(err => console.warn('Could not save session recording:', err));
+    recorderRef.current = null;
+  };
+
+  const saveMetrics = () => {
+    const metrics = metricsRef.current;
+    if (!metrics) return;
+    metrics.save();
+    setLiveMetrics(metrics.snapshot());
+    metricsRef.current = null;
+  };
+
   const stopSession = () => {
-    if (sessionPromiseRef.current) {
-      sessionPromiseRef.current.then((s: any) => { try { s.close(); } catch (e) {} });
+    userStoppedRef.current = true;
+    connectionIdRef.current++;
+    if (reconnectTimerRef.current !== null) {
+      clearTimeout(reconnectTimerRef.current);
+      reconnectTimerRef.current = null;
     }
-    if (micStreamRef.current) micStreamRef.current.getTracks().forEach(t => t.stop());
-    if (audioContextsRef.current) {
-      audioContextsRef.current.input.close().catch(() => {});
-      audioContextsRef.current.output.close().catch(() => {});
+    if (sessionPromiseRef.current) {
+      sessionPromiseRef.current.then(s => { try { s.close(); } catch (e) {} }).catch(() => {});
     }
+    saveRecording();
+    saveMetrics();
+    captionBuilderRef.current.flush();
+    if (!isRehearsingRef.current) endServiceSession();
+    governorRef.current.cancel('session_stopped');
+    releaseAudio();
     setAudioVolume(0);
+    resetSendingAudio();
     setStatus(SessionStatus.IDLE);
     sessionPromiseRef.current = null;
   };
 
-  const handleNext = () => {
-    if (sessionPromiseRef.current && currentVerse) {
+  const requestAdjacentVerse = (delta: 1 | -1) => {
+    if (!sessionPromiseRef.current || !currentVerse) return;
+    const target = currentVerse.location ? stepReference(currentVerse.location, delta, getVerseCount) : null;
+    requestedReferenceRef.current = target;
+    // Fall back to letting the model resolve it when the reference could not be parsed
+    const request = target
+      ? `User request: Show ${formatReference(target)}.`
+      : `User request: Show the ${delta > 0 ? 'next verse after' : 'previous verse before'} ${currentVerse.reference}.`;
+    sessionPromiseRef.current.then(session => {
+      session.sendRealtimeInput({ text: request });
+    }).catch(err => console.error(err));
+  };
+
+  // Returns false when the local store has no text for the reference
+  const showLocalReference = async (reference: ScriptureReference, source: VerseSource): Promise<boolean> => {
+    const local = await resolveLocalVerse(reference, translationRef.current);
+    if (!local) return false;
+    governorRef.current.cancel('superseded_by_operator');
+    const parallels = await resolveParallels(reference, getParallelTranslations(local.translation));
+    const secondary = secondaryLanguageRef.current && await resolveSecondary(reference, secondaryLanguageRef.current);
+    setCurrentVerse({ ...local, source, ...(parallels.length ? { parallels } : {}), ...(secondary ? { secondary } : {}) });
+    sendSystemSync(source === VerseSource.FOLLOW
+      ? `The reading reached the end of the previous verse; ${local.reference} is now displayed.`
+      : `Operator displayed ${local.reference}.`);
+    return true;
+  };
+
+  // Operator-initiated display: local text goes straight live, otherwise the model supplies it
+  const displayReference = async (reference: ScriptureReference, source: VerseSource = VerseSource.MANUAL) => {
+    if (await showLocalReference(reference, source)) return;
+    if (sessionPromiseRef.current) {
+      requestedReferenceRef.current = reference;
       sessionPromiseRef.current.then(session => {
-        session.sendRealtimeInput({ parts: [{ text: `User request: Show the next verse after ${currentVerse.reference}.` }] });
+        session.sendRealtimeInput({ text: `User request: Show ${formatReference(reference)}.` });
       }).catch(err => console.error(err));
+    } else {
+      console.warn(`No local ${translationRef.current} text for ${formatReference(reference)}; start the session to display it.`);
     }
   };
 
+  const handleShowCue = (index: number) => {
+    const cue = activePlan?.cues[index];
+    if (!cue) return;
+    setCueIndex(index);
+    displayReference(cue.reference, VerseSource.CUE);
+  };
+
+  // Step through the slides of a passage before moving to the adjacent reference
+  const handleNext = () => {
+    if (slideIndex < slides.length - 1) setSlideIndex(slideIndex + 1);
+    else requestAdjacentVerse(1);
+  };
+
   const handlePrev = () => {
-    if (sessionPromiseRef.current && currentVerse) {
-      sessionPromiseRef.current.then(session => {
-        session.sendRealtimeInput({ parts: [{ text: `User request: Show the previous verse before ${currentVerse.reference}.` }] });
-      }).catch(err => console.error(err));
-    }
+    if (slideIndex > 0) setSlideIndex(slideIndex - 1);
+    else requestAdjacentVerse(-1);
   };
 
   const handleReadAloud = async () => {
     if (!currentVerse || isReadingAloud) return;
+    // Recite what is on screen so the word highlighting lines up with the slide
+    const reciteText = slides[slideIndex]?.text ?? currentVerse.text;
+    const preface = `Reading ${currentVerse.reference}:`;
+    const request = { cancelled: false, paused: false };
+    reciteRequestRef.current = request;
     setIsReadingAloud(true);
-    setActiveWordIndex(0);
+    setIsRecitePaused(false);
+    setActiveWordIndex(-1);
     const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
     try {
       const res = await ai.models.generateContent({
-        model: TTS_MODEL,
-        contents: [{ parts: [{ text: `Reading ${currentVerse.reference}: ${currentVerse.text}` }] }],
+        model: settings.ttsModel,
+        contents: [{ parts: [{ text: `${preface} ${reciteText}` }] }],
         config: { 
           responseModalities: [Modality.AUDIO], 
-          speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Zephyr' } } } 
+          speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: settings.voice } } } 
         },
       });
+      if (request.cancelled) return;
       const data = res.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
       if (data) {
         const audioCtx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: OUTPUT_SAMPLE_RATE });
         const buffer = await decodeAudioData(decode(data), audioCtx, OUTPUT_SAMPLE_RATE, 1);
-        const source = audioCtx.createBufferSource();
-        source.buffer = buffer;
-        source.connect(audioCtx.destination);
-        const words = currentVerse.text.split(/\s+/);
-        const durationPerWord = (buffer.duration * 0.85) / words.length;
-        const highlightInterval = setInterval(() => {
-          setActiveWordIndex(prev => {
-            const nextIdx = prev + 1;
-            if (nextIdx < words.length) return nextIdx;
-            clearInterval(highlightInterval);
-            return prev;
-          });
-        }, durationPerWord * 1000);
-        source.onended = () => {
-          clearInterval(highlightInterval);
-          setIsReadingAloud(false);
-          setActiveWordIndex(-1);
+        if (request.cancelled) {
           audioCtx.close().catch(() => {});
-        };
-        source.start();
+          return;
+        }
+        reciteRequestRef.current = null;
+        // The spoken preface is timed too, so the slide's words start where the reference ends
+        const prefaceWords = preface.split(/\s+/);
+        const words = slideWords(slides[slideIndex], currentVerse.text);
+        const timings = estimateWordTimings(buffer.getChannelData(0), buffer.sampleRate, [...prefaceWords, ...words]);
+        recitePlaybackRef.current = playRecitation(audioCtx, buffer, timings, {
+          onWord: index => setActiveWordIndex(index - prefaceWords.length),
+          onEnd: () => {
+            recitePlaybackRef.current = null;
+            setIsReadingAloud(false);
+            setIsRecitePaused(false);
+            setActiveWordIndex(-1);
+            audioCtx.close().catch(() => {});
+          },
+        });
+        if (request.paused) recitePlaybackRef.current.pause();
       } else {
+        reciteRequestRef.current = null;
         setIsReadingAloud(false);
       }
     } catch (err) {
+      if (request.cancelled) return;
+      reciteRequestRef.current = null;
       setIsReadingAloud(false);
       setActiveWordIndex(-1);
     }
   };
 
+  const handleToggleRecitePause = () => {
+    const playback = recitePlaybackRef.current;
+    const request = reciteRequestRef.current;
+    if (playback) {
+      if (isRecitePaused) playback.resume();
+      else playback.pause();
+    } else if (request) {
+      request.paused = !isRecitePaused;
+    } else {
+      return;
+    }
+    setIsRecitePaused(!isRecitePaused);
+  };
+
+  const handleStopRecite = () => {
+    if (recitePlaybackRef.current) {
+      recitePlaybackRef.current.stop();
+      return;
+    }
+    // Speech still being generated is dropped when it arrives
+    if (reciteRequestRef.current) reciteRequestRef.current.cancelled = true;
+    reciteRequestRef.current = null;
+    setIsReadingAloud(false);
+    setIsRecitePaused(false);
+    setActiveWordIndex(-1);
+  };
+
   if (isAuthorized === null) return <div className="min-h-screen bg-[#050506]" />;
   if (isAuthorized === false) {
     return (
       <div className="min-h-screen flex flex-col items-center justify-center p-8 bg-[#050506] text-white">
         <div className="max-w-md w-full text-center space-y-10">
-          <IWCLogo className="w-40 h-40 mx-auto" />
-          <button onClick={handleAuthorize} className="w-full py-5 bg-[#a34981] rounded-2xl font-black uppercase text-xs tracking-[0.3em]">
+          <BrandLogo className="w-40 h-40 mx-auto" />
+          <button onClick={handleAuthorize} className="w-full py-5 bg-brand rounded-2xl font-black uppercase text-xs tracking-[0.3em]">
             Activate Session
           </button>
         </div>
@@ -353,32 +1161,162 @@ const App: React.FC = () => {
     <div className="h-screen max-h-screen flex flex-col bg-[#050506] overflow-hidden">
       <header className="p-6 flex justify-between items-center z-20">
         <div className="flex items-center space-x-4">
-           <div className={`w-2 h-2 rounded-full ${status === SessionStatus.LISTENING ? 'bg-[#a34981] animate-pulse' : 'bg-zinc-800'}`} />
-           <h1 className="text-[10px] font-black tracking-[0.4em] uppercase text-zinc-600">Inspired AI Live</h1>
+           <div className={`w-2 h-2 rounded-full ${
+             status === SessionStatus.LISTENING ? 'bg-brand animate-pulse' : status === SessionStatus.RECONNECTING ? 'bg-amber-700 animate-pulse' : 'bg-zinc-800'
+           }`} />
+           <h1 className="text-[10px] font-black tracking-[0.4em] uppercase text-zinc-600">{theme.labels.appTitle}</h1>
+        </div>
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={() => setIsPlanEditorOpen(true)}
+            className="text-[9px] text-zinc-600 hover:text-zinc-300 font-bold uppercase tracking-widest px-3 py-1 rounded-full border border-zinc-800 transition-colors"
+          >
+            Sermon Plan
+          </button>
+          <button
+            onClick={() => setIsHistoryOpen(true)}
+            className="text-[9px] text-zinc-600 hover:text-zinc-300 font-bold uppercase tracking-widest px-3 py-1 rounded-full border border-zinc-800 transition-colors"
+          >
+            History
+          </button>
+          <button
+            onClick={() => setIsSettingsOpen(true)}
+            className="text-[9px] text-zinc-600 hover:text-zinc-300 font-bold uppercase tracking-widest px-3 py-1 rounded-full border border-zinc-800 transition-colors"
+          >
+            Settings
+          </button>
+          <button
+            onClick={() => handleChangeCaptionSettings({ ...captionSettings, showPanel: !captionSettings.showPanel })}
+            className={`text-[9px] font-bold uppercase tracking-widest px-3 py-1 rounded-full border transition-colors ${
+              captionSettings.showPanel ? 'text-zinc-300 border-zinc-600' : 'text-zinc-600 hover:text-zinc-300 border-zinc-800'
+            }`}
+          >
+            Captions
+          </button>
+          <button
+            onClick={() => setIsMusicMode(on => !on)}
+            title="Pause streaming to the model during worship"
+            className={`text-[9px] font-bold uppercase tracking-widest px-3 py-1 rounded-full border transition-colors ${
+              isMusicMode ? 'text-brand border-brand/40' : 'text-zinc-600 hover:text-zinc-300 border-zinc-800'
+            }`}
+          >
+            Music
+          </button>
+          <button
+            onClick={() => setIsThemeOpen(true)}
+            className="text-[9px] text-zinc-600 hover:text-zinc-300 font-bold uppercase tracking-widest px-3 py-1 rounded-full border border-zinc-800 transition-colors"
+          >
+            Theme
+          </button>
+          <button
+            onClick={() => setIsKeymapOpen(true)}
+            className="text-[9px] text-zinc-600 hover:text-zinc-300 font-bold uppercase tracking-widest px-3 py-1 rounded-full border border-zinc-800 transition-colors"
+            title="Keyboard and clicker shortcuts (?)"
+          >
+            Keys
+          </button>
+          <BilingualPicker language={secondaryLanguage} onChange={handleChangeSecondaryLanguage} />
+          <ParallelPicker settings={parallelSettings} primaryTranslation={defaultTranslation} onChange={handleChangeParallel} />
+          <BibleImport />
+          <RehearsalControls
+            rehearsal={rehearsal}
+            onLoadRehearsal={setRehearsal}
+            isRecording={isRecording}
+            onToggleRecording={() => setIsRecording(r => !r)}
+            disabled={status !== SessionStatus.IDLE && status !== SessionStatus.ERROR}
+          />
+          {(displayState === DisplayState.BLANK || displayState === DisplayState.LOGO) && (
+             <button onClick={() => changeDisplayState(DisplayState.VERSE)} className="text-[9px] text-zinc-300 font-bold uppercase tracking-widest px-3 py-1 rounded-full border border-zinc-600">
+               {displayState === DisplayState.BLANK ? 'Screen Blanked' : 'Logo Showing'}
+             </button>
+          )}
+          {status === SessionStatus.RECONNECTING && (
+             <span className="text-[9px] text-amber-700 font-bold uppercase tracking-widest px-3 py-1 rounded-full border border-amber-900/30 animate-pulse">
+               Reconnecting
+             </span>
+          )}
+          {status === SessionStatus.ERROR && (
+             <button onClick={startSession} className="text-[9px] text-red-900 font-bold uppercase tracking-widest px-3 py-1 rounded-full border border-red-900/20">
+               Reconnect
+             </button>
+          )}
         </div>
-        {status === SessionStatus.ERROR && (
-           <button onClick={() => window.location.reload()} className="text-[9px] text-red-900 font-bold uppercase tracking-widest px-3 py-1 rounded-full border border-red-900/20">
-             Reconnect
-           </button>
-        )}
       </header>
-      <main className="flex-1 flex flex-col p-4 sm:p-6 md:p-8 overflow-hidden min-h-0">
+      {translationError && (
+        <p className="mx-8 -mt-2 px-4 py-2 rounded-xl border border-amber-900/40 bg-amber-950/20 text-[9px] font-bold tracking-wider text-amber-600/90">
+          {translationError}
+        </p>
+      )}
+      <main className="flex-1 flex flex-row space-x-4 p-4 sm:p-6 md:p-8 overflow-hidden min-h-0">
+        {activePlan && (
+          <div className="w-64 flex-shrink-0 min-h-0">
+            <CueList plan={activePlan} activeIndex={cueIndex} onShowCue={handleShowCue} onClose={() => handleUsePlan(null)} />
+          </div>
+        )}
         <DisplayScreen 
           verse={currentVerse} 
+          slide={slides[slideIndex]}
+          slideIndex={slideIndex}
+          slideCount={slides.length}
+          onSelectSlide={setSlideIndex}
           status={status}
           onReadAloud={handleReadAloud} 
           isReading={isReadingAloud}
+          isRecitePaused={isRecitePaused}
+          onToggleRecitePause={handleToggleRecitePause}
+          onStopRecite={handleStopRecite}
           activeWordIndex={activeWordIndex}
-          isLocked={isLocked}
-          onToggleLock={() => setIsLocked(!isLocked)}
+          updateMode={updateMode}
+          onChangeMode={setUpdateMode}
           onNext={handleNext}
           onPrev={handlePrev}
           audioVolume={audioVolume}
+          isSendingAudio={isSendingAudio}
+          isMusicMode={isMusicMode}
+          parallelLayout={parallelSettings.layout}
+          onChooseAlternative={reference => chooseAlternative(reference)}
         />
+        {(updateMode === UpdateMode.APPROVE || pendingVerses.length > 0) && (
+          <div className="w-72 flex-shrink-0 min-h-0">
+            <PendingQueue
+              items={pendingVerses}
+              onApprove={approvePending}
+              onReject={rejectPending}
+              onChooseAlternative={(id, reference) => chooseAlternative(reference, id)}
+            />
+          </div>
+        )}
+        {captionSettings.showPanel && (
+          <div className="w-72 flex-shrink-0 min-h-0">
+            <CaptionPanel
+              segments={captions}
+              settings={captionSettings}
+              onChangeSettings={handleChangeCaptionSettings}
+              onShowReference={reference => displayReference(reference)}
+              onExport={handleExportCaptions}
+            />
+          </div>
+        )}
       </main>
-      <footer className="p-4">
-        <AnimatedMic status={status} onClick={status === SessionStatus.LISTENING ? stopSession : startSession} />
+      {/* Output controls sit beside the mic on wide screens and stack with it on narrow ones */}
+      <footer className="p-4 flex flex-col items-center space-y-4 sm:flex-row sm:items-end sm:justify-between sm:space-y-0 lg:block lg:relative">
+        <div className="order-2 sm:order-1 lg:absolute lg:left-8 lg:bottom-6">
+          <LivePreview output={liveOutput} outputCount={outputCount} onOpenOutput={() => openOutputWindow('projector')} onChangeDisplayState={changeDisplayState} />
+        </div>
+        <div className="order-1 sm:order-2">
+          <AnimatedMic status={status} onClick={status === SessionStatus.LISTENING || status === SessionStatus.RECONNECTING ? stopSession : startSession} />
+        </div>
+        <div className="order-3 lg:absolute lg:right-8 lg:bottom-6">
+          <MetricsPanel live={liveMetrics} />
+        </div>
       </footer>
+      {isHistoryOpen && <HistoryPanel onClose={() => setIsHistoryOpen(false)} />}
+      {isSettingsOpen && <SettingsPanel settings={settings} onSave={handleSaveSettings} onClose={() => setIsSettingsOpen(false)} />}
+      {isThemeOpen && <ThemePanel onClose={() => setIsThemeOpen(false)} />}
+      {isKeymapOpen && <KeymapSheet keymap={keymap} onChange={handleChangeKeymap} onClose={() => setIsKeymapOpen(false)} />}
+      {isPlanEditorOpen && (
+        <SermonPlanEditor activePlanId={activePlan?.id} onUsePlan={handleUsePlan} onClose={() => setIsPlanEditorOpen(false)} />
+      )}
     </div>
   );
 };
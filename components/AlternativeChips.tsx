@@ -0,0 +1,29 @@
+import React from 'react';
+import { ScriptureReference } from '../types';
+import { formatReference } from '../utils/scriptureParser';
+
+interface AlternativeChipsProps {
+  alternatives: ScriptureReference[];
+  confidence?: number;
+  onChoose: (reference: ScriptureReference) => void;
+}
+
+// Other references the model thought the speaker might have meant; one tap swaps them in
+const AlternativeChips: React.FC<AlternativeChipsProps> = ({ alternatives, confidence, onChoose }) => (
+  <div className="flex flex-wrap items-center justify-center gap-1.5">
+    <span className="text-[8px] font-black uppercase tracking-[0.3em] text-zinc-600 mr-1">
+      {confidence !== undefined ? `${Math.round(confidence * 100)}% sure · ` : ''}Or
+    </span>
+    {alternatives.map(reference => (
+      <button
+        key={formatReference(reference)}
+        onClick={() => onChoose(reference)}
+        className="px-2.5 py-1 rounded-full border border-zinc-800 hover:border-brand/50 text-[9px] font-bold uppercase tracking-[0.15em] text-zinc-400 hover:text-zinc-100 transition-colors active:scale-95"
+      >
+        {formatReference(reference)}
+      </button>
+    ))}
+  </div>
+);
+
+export default AlternativeChips;
@@ -8,19 +8,19 @@ interface AnimatedMicProps {
 
 const AnimatedMic: React.FC<AnimatedMicProps> = ({ status, onClick }) => {
   const isListening = status === SessionStatus.LISTENING;
-  const isConnecting = status === SessionStatus.CONNECTING;
+  const isConnecting = status === SessionStatus.CONNECTING || status === SessionStatus.RECONNECTING;
 
   return (
     <div className="relative flex flex-col items-center justify-center pt-2 pb-6">
       <div className="relative group cursor-pointer" onClick={onClick}>
         {/* Compact Purple Glow */}
         {isListening && (
-          <div className="absolute inset-0 rounded-full bg-[#a34981]/30 pulse-animation scale-150 blur-2xl"></div>
+          <div className="absolute inset-0 rounded-full bg-brand/30 pulse-animation scale-150 blur-2xl"></div>
         )}
         
         <div className={`relative z-10 w-20 h-20 rounded-full flex items-center justify-center transition-all duration-500 shadow-2xl ${
           isListening 
-            ? 'bg-[#a34981] ring-8 ring-[#a34981]/20' 
+            ? 'bg-brand ring-8 ring-brand/20' 
             : isConnecting 
               ? 'bg-zinc-800 animate-pulse'
               : 'bg-zinc-900 ring-1 ring-zinc-800 hover:scale-105 active:scale-95'
@@ -32,7 +32,7 @@ const AnimatedMic: React.FC<AnimatedMicProps> = ({ status, onClick }) => {
               <line x1="12" y1="18" x2="12" y2="21" strokeWidth={2.5} />
             </svg>
           ) : (
-            <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8 text-[#a34981]" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8 text-brand" fill="none" viewBox="0 0 24 24" stroke="currentColor">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
             </svg>
           )}
@@ -42,8 +42,9 @@ const AnimatedMic: React.FC<AnimatedMicProps> = ({ status, onClick }) => {
       <div className="mt-5 flex flex-col items-center space-y-1">
         <p className="text-[10px] font-black tracking-[0.4em] uppercase transition-all duration-300">
           {status === SessionStatus.IDLE && <span className="text-zinc-700">Connect Session</span>}
-          {status === SessionStatus.CONNECTING && <span className="text-[#a34981]/60">Syncing...</span>}
-          {status === SessionStatus.LISTENING && <span className="text-[#a34981] animate-pulse">Live Listening</span>}
+          {status === SessionStatus.CONNECTING && <span className="text-brand/60">Syncing...</span>}
+          {status === SessionStatus.LISTENING && <span className="text-brand animate-pulse">Live Listening</span>}
+          {status === SessionStatus.RECONNECTING && <span className="text-amber-700 animate-pulse">Reconnecting...</span>}
           {status === SessionStatus.ERROR && <span className="text-red-900">Link Severed</span>}
         </p>
       </div>
@@ -0,0 +1,38 @@
+import React, { useRef, useState } from 'react';
+import { importTranslation } from '../utils/bibleStore';
+
+const BibleImport: React.FC = () => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const id = file.name.replace(/\.[^.]+$/, '');
+      const translation = await importTranslation(await file.text(), { id });
+      setMessage(`${translation.id} Imported`);
+    } catch (err: any) {
+      console.error('Translation import failed:', err);
+      setMessage(err?.message || 'Import Failed');
+    }
+    setTimeout(() => setMessage(null), 4000);
+  };
+
+  return (
+    <div className="flex items-center space-x-3">
+      {message && <span className="text-[9px] text-zinc-500 font-bold uppercase tracking-widest">{message}</span>}
+      <button
+        onClick={() => inputRef.current?.click()}
+        className="text-[9px] text-zinc-600 hover:text-zinc-300 font-bold uppercase tracking-widest px-3 py-1 rounded-full border border-zinc-800 transition-colors"
+        title="Import a licensed translation (JSON or one 'Book C:V text' line per verse)"
+      >
+        Import Bible
+      </button>
+      <input ref={inputRef} type="file" accept=".json,.txt" className="hidden" onChange={handleFile} />
+    </div>
+  );
+};
+
+export default BibleImport;
@@ -0,0 +1,34 @@
+import React from 'react';
+import { SECONDARY_LANGUAGES } from '../utils/bilingual';
+import { findTranslationsForLanguage } from '../utils/bibleStore';
+
+interface BilingualPickerProps {
+  language: string | null;
+  onChange: (language: string | null) => void;
+}
+
+const BilingualPicker: React.FC<BilingualPickerProps> = ({ language, onChange }) => {
+  const local = language ? findTranslationsForLanguage(language)[0] : undefined;
+
+  return (
+    <select
+      value={language ?? ''}
+      onChange={e => onChange(e.target.value || null)}
+      className={`text-[9px] font-bold uppercase tracking-widest px-3 py-1 rounded-full border bg-transparent outline-none transition-colors ${
+        language ? 'text-brand border-brand/40' : 'text-zinc-600 hover:text-zinc-300 border-zinc-800'
+      }`}
+      title={language
+        ? local ? `Second language from ${local.name}` : 'No local translation in this language; the model renders it'
+        : 'Show each verse in a second language for this service'}
+    >
+      <option value="" className="bg-black">Monolingual</option>
+      {SECONDARY_LANGUAGES.map(option => (
+        <option key={option.code} value={option.code} className="bg-black">
+          + {option.name}{findTranslationsForLanguage(option.code).length ? '' : ' (AI)'}
+        </option>
+      ))}
+    </select>
+  );
+};
+
+export default BilingualPicker;
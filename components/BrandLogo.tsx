@@ -0,0 +1,22 @@
+import React from 'react';
+import IWCLogo from './IWCLogo';
+import { useTheme } from './ThemeProvider';
+import { DEFAULT_THEME } from '../utils/theme';
+
+interface BrandLogoProps {
+  className?: string;
+}
+
+// The church's uploaded logo; the default theme falls back to the IWC mark, others to their name in the brand color
+const BrandLogo: React.FC<BrandLogoProps> = ({ className = 'w-12 h-12' }) => {
+  const { theme, logoUrl } = useTheme();
+  if (logoUrl) return <img src={logoUrl} alt="" className={`object-contain ${className}`} />;
+  if (theme.id === DEFAULT_THEME.id) return <IWCLogo className={className} />;
+  return (
+    <div className={`flex items-center justify-center text-center font-serif font-bold text-brand leading-tight ${className}`}>
+      {theme.labels.organization || theme.labels.appTitle}
+    </div>
+  );
+};
+
+export default BrandLogo;
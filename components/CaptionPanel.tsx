@@ -0,0 +1,85 @@
+import React, { useEffect, useRef } from 'react';
+import { CaptionSegment, ScriptureReference } from '../types';
+import { findReferences, formatReference } from '../utils/scriptureParser';
+import { CaptionSettings } from '../utils/captions';
+
+interface CaptionPanelProps {
+  segments: CaptionSegment[];
+  settings: CaptionSettings;
+  onChangeSettings: (settings: CaptionSettings) => void;
+  onShowReference: (reference: ScriptureReference) => void;
+  onExport: (format: 'txt' | 'vtt') => void;
+}
+
+// Older lines stay in the saved transcript; the panel only needs the recent ones
+const VISIBLE_LINES = 200;
+
+const CaptionLine: React.FC<{ text: string; onShowReference: (reference: ScriptureReference) => void }> = ({ text, onShowReference }) => {
+  const pieces: React.ReactNode[] = [];
+  let cursor = 0;
+  findReferences(text).forEach(match => {
+    if (match.start > cursor) pieces.push(text.slice(cursor, match.start));
+    pieces.push(
+      <button
+        key={match.start}
+        onClick={() => onShowReference(match.reference)}
+        title={`Show ${formatReference(match.reference)}`}
+        className="text-brand font-bold hover:underline"
+      >
+        {text.slice(match.start, match.end)}
+      </button>,
+    );
+    cursor = match.end;
+  });
+  if (cursor < text.length) pieces.push(text.slice(cursor));
+  return <>{pieces}</>;
+};
+
+// Operator view of the live sermon transcript; references in it can be pushed live with a click
+const CaptionPanel: React.FC<CaptionPanelProps> = ({ segments, settings, onChangeSettings, onShowReference, onExport }) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const pinnedRef = useRef(true);
+  const visible = segments.slice(-VISIBLE_LINES);
+
+  // Follow new lines unless the operator has scrolled up to read back
+  useEffect(() => {
+    const area = scrollRef.current;
+    if (area && pinnedRef.current) area.scrollTop = area.scrollHeight;
+  }, [segments]);
+
+  const handleScroll = () => {
+    const area = scrollRef.current;
+    if (area) pinnedRef.current = area.scrollHeight - area.scrollTop - area.clientHeight < 40;
+  };
+
+  return (
+    <div className="h-full flex flex-col rounded-[2rem] border border-zinc-800/50 bg-[#0a0a0c] overflow-hidden">
+      <div className="px-5 pt-5 pb-3 flex items-center justify-between">
+        <span className="text-[9px] font-black uppercase tracking-[0.3em] text-zinc-500">Captions</span>
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={() => onChangeSettings({ ...settings, onOutput: !settings.onOutput })}
+            className={`text-[8px] font-bold uppercase tracking-[0.2em] transition-colors ${settings.onOutput ? 'text-brand' : 'text-zinc-700 hover:text-zinc-400'}`}
+            title="Show captions on the audience output"
+          >
+            On Output
+          </button>
+          <button onClick={() => onExport('txt')} disabled={!segments.length} className="text-[8px] font-bold uppercase tracking-[0.2em] text-zinc-700 hover:text-zinc-400 disabled:opacity-40">TXT</button>
+          <button onClick={() => onExport('vtt')} disabled={!segments.length} className="text-[8px] font-bold uppercase tracking-[0.2em] text-zinc-700 hover:text-zinc-400 disabled:opacity-40">VTT</button>
+        </div>
+      </div>
+      <div ref={scrollRef} onScroll={handleScroll} className="flex-1 overflow-y-auto scrollbar-hide px-5 pb-4 space-y-2">
+        {visible.length === 0 && (
+          <p className="pt-6 text-center text-[8px] font-black uppercase tracking-[0.4em] text-zinc-800">Waiting for Speech</p>
+        )}
+        {visible.map((segment, i) => (
+          <p key={segment.id} className={`text-xs leading-relaxed ${i === visible.length - 1 ? 'text-zinc-200' : 'text-zinc-500'}`}>
+            <CaptionLine text={segment.text} onShowReference={onShowReference} />
+          </p>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default CaptionPanel;
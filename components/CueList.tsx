@@ -0,0 +1,55 @@
+import React from 'react';
+import { SermonPlan } from '../types';
+
+interface CueListProps {
+  plan: SermonPlan;
+  activeIndex: number;
+  onShowCue: (index: number) => void;
+  onClose: () => void;
+}
+
+// Operator's ordered list of the planned references for this service
+const CueList: React.FC<CueListProps> = ({ plan, activeIndex, onShowCue, onClose }) => {
+  const hasNext = activeIndex < plan.cues.length - 1;
+
+  return (
+    <div className="h-full flex flex-col rounded-[2rem] border border-zinc-800/50 bg-[#0a0a0c] overflow-hidden">
+      <div className="px-5 pt-5 pb-3">
+        <div className="flex items-center justify-between">
+          <span className="text-[9px] font-black uppercase tracking-[0.3em] text-zinc-500">Cue List</span>
+          <button onClick={onClose} className="text-[8px] font-bold uppercase tracking-[0.2em] text-zinc-700 hover:text-zinc-400">Close</button>
+        </div>
+        <p className="mt-1 text-[10px] text-zinc-400 truncate" title={plan.title}>{plan.title}</p>
+      </div>
+      <ol className="flex-1 overflow-y-auto scrollbar-hide px-3 space-y-1">
+        {plan.cues.map((cue, i) => (
+          <li key={cue.id}>
+            <button
+              onClick={() => onShowCue(i)}
+              title={cue.context}
+              className={`w-full text-left px-3 py-2 rounded-xl border transition-colors ${
+                i === activeIndex
+                  ? 'border-brand/40 bg-brand/10 text-white'
+                  : i < activeIndex ? 'border-transparent text-zinc-600 hover:bg-white/5' : 'border-transparent text-zinc-300 hover:bg-white/5'
+              }`}
+            >
+              <span className="text-[9px] text-zinc-600 mr-2">{i + 1}</span>
+              <span className="text-[10px] font-bold uppercase tracking-[0.15em]">{cue.label}</span>
+            </button>
+          </li>
+        ))}
+      </ol>
+      <div className="p-3">
+        <button
+          onClick={() => onShowCue(activeIndex + 1)}
+          disabled={!hasNext}
+          className="w-full py-2 rounded-xl bg-brand disabled:bg-zinc-900 disabled:text-zinc-700 text-white text-[8px] font-black uppercase tracking-[0.3em] active:scale-95 transition-all"
+        >
+          {hasNext ? `Next Cue: ${plan.cues[activeIndex + 1].label}` : 'End of Plan'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CueList;
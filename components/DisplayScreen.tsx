@@ -1,33 +1,68 @@
 import React, { useEffect, useState, useRef } from 'react';
-import { VerseData, SessionStatus } from '../types';
-import IWCLogo from './IWCLogo';
+import { VerseData, SessionStatus, VerificationStatus, Slide, UpdateMode, ParallelLayout, ScriptureReference } from '../types';
+import BrandLogo from './BrandLogo';
+import { useTheme } from './ThemeProvider';
+import ParallelVerseBody from './ParallelVerseBody';
+import SecondaryVerse from './SecondaryVerse';
+import AlternativeChips from './AlternativeChips';
 
 interface DisplayScreenProps {
   verse: VerseData | null;
+  slide?: Slide;
+  slideIndex?: number;
+  slideCount?: number;
+  onSelectSlide?: (index: number) => void;
   status: SessionStatus;
   onReadAloud: () => void;
   isReading: boolean;
+  isRecitePaused?: boolean;
+  onToggleRecitePause?: () => void;
+  onStopRecite?: () => void;
   activeWordIndex?: number;
-  isLocked?: boolean;
-  onToggleLock?: () => void;
+  updateMode?: UpdateMode;
+  onChangeMode?: (mode: UpdateMode) => void;
   onNext?: () => void;
   onPrev?: () => void;
   audioVolume?: number;
+  // False while the voice gate or music mode is holding the mic back from the model
+  isSendingAudio?: boolean;
+  isMusicMode?: boolean;
+  parallelLayout?: ParallelLayout;
+  onChooseAlternative?: (reference: ScriptureReference) => void;
 }
 
+const MODE_OPTIONS = [
+  { mode: UpdateMode.AUTO, label: 'Auto', title: 'AI-detected verses go live immediately' },
+  { mode: UpdateMode.APPROVE, label: 'Approve', title: 'AI-detected verses wait for operator approval' },
+  { mode: UpdateMode.LOCKED, label: 'Locked', title: 'Ignore AI-detected verses' },
+];
+
 const DisplayScreen: React.FC<DisplayScreenProps> = ({ 
   verse, 
+  slide,
+  slideIndex = 0,
+  slideCount = 1,
+  onSelectSlide,
   status, 
   onReadAloud, 
   isReading, 
+  isRecitePaused = false,
+  onToggleRecitePause,
+  onStopRecite,
   activeWordIndex = -1,
-  isLocked = false,
-  onToggleLock,
+  updateMode = UpdateMode.AUTO,
+  onChangeMode,
   onNext,
   onPrev,
-  audioVolume = 0
+  audioVolume = 0,
+  isSendingAudio = true,
+  isMusicMode = false,
+  parallelLayout = ParallelLayout.COLUMNS,
+  onChooseAlternative,
 }) => {
+  const { theme } = useTheme();
   const isListening = status === SessionStatus.LISTENING;
+  const isLocked = updateMode === UpdateMode.LOCKED;
   const [showSweep, setShowSweep] = useState(false);
   const scrollAreaRef = useRef<HTMLDivElement>(null);
 
@@ -42,18 +77,10 @@ const DisplayScreen: React.FC<DisplayScreenProps> = ({
     }
   }, [verse?.reference]);
 
-  // Aggressive scaling for a "perfect fit"
-  const getDynamicFontSize = (text: string) => {
-    const len = text.length;
-    if (len < 50) return 'clamp(2rem, 7vw, 4.5rem)';
-    if (len < 120) return 'clamp(1.5rem, 5.5vw, 3.5rem)';
-    if (len < 250) return 'clamp(1.2rem, 4.5vw, 2.5rem)';
-    if (len < 500) return 'clamp(1rem, 3.8vw, 2.1rem)';
-    return 'clamp(0.9rem, 3.2vw, 1.7rem)';
-  };
+  useEffect(() => {
+    scrollAreaRef.current?.scrollTo({ top: 0, behavior: 'smooth' });
+  }, [slideIndex]);
 
-  const words = verse?.text.split(/\s+/) || [];
-  
   // Enhanced Waveform logic: 32 bars for a nuanced look
   const barCount = 32;
   const renderWaveform = () => {
@@ -70,11 +97,11 @@ const DisplayScreen: React.FC<DisplayScreenProps> = ({
       return (
         <div 
           key={i} 
-          className="w-1 mx-[1px] rounded-full bg-[#a34981] transition-all duration-75 ease-out"
+          className={`w-1 mx-[1px] rounded-full transition-all duration-75 ease-out ${isSendingAudio ? 'bg-brand' : 'bg-zinc-600'}`}
           style={{ 
             height: `${height}px`, 
             opacity: 0.15 + (audioVolume * factor * 2),
-            boxShadow: audioVolume > 0.05 ? `0 0 10px rgba(163, 73, 129, ${audioVolume * factor})` : 'none',
+            boxShadow: isSendingAudio && audioVolume > 0.05 ? `0 0 10px rgb(var(--brand-rgb) / ${audioVolume * factor})` : 'none',
             filter: audioVolume > 0.1 ? `blur(${audioVolume * 2}px)` : 'none'
           }}
         ></div>
@@ -85,53 +112,58 @@ const DisplayScreen: React.FC<DisplayScreenProps> = ({
   return (
     <div className={`flex-1 w-full relative overflow-hidden rounded-[2.5rem] border transition-all duration-700 flex flex-col min-h-0 ${
       isListening 
-        ? 'border-[#a34981]/40 bg-[#070708] shadow-[0_0_100px_-20px_rgba(163,73,129,0.2)]' 
+        ? 'border-brand/40 bg-[#070708] shadow-[0_0_100px_-20px_rgb(var(--brand-rgb)/0.2)]' 
         : 'border-zinc-800/50 bg-[#0a0a0c]'
     }`}>
       
       {/* Brand Corner */}
       <div className="absolute top-6 right-8 z-30 opacity-60 pointer-events-none">
-        <IWCLogo className="w-10 h-10" />
+        <BrandLogo className="w-10 h-10" />
       </div>
 
-      {/* Manual Lock Toggle */}
-      {verse && (
-        <div className="absolute top-6 left-8 z-30">
+      {/* Update Mode: Auto, Approve (staged queue) or Manual Lock */}
+      <div className="absolute top-6 left-8 z-30 flex items-center p-1 rounded-full border border-zinc-800 bg-black/40">
+        {MODE_OPTIONS.map(option => (
           <button 
-            onClick={onToggleLock}
-            className={`flex items-center space-x-3 px-4 py-1.5 rounded-full border transition-all duration-500 active:scale-95 group ${
-              isLocked 
-                ? 'bg-[#a34981] border-[#a34981]/40 text-white shadow-lg' 
-                : 'bg-black/40 border-zinc-800 text-zinc-500 hover:text-zinc-300'
+            key={option.mode}
+            onClick={() => onChangeMode?.(option.mode)}
+            title={option.title}
+            className={`flex items-center space-x-2 px-3 py-1 rounded-full transition-all duration-500 active:scale-95 ${
+              updateMode === option.mode 
+                ? 'bg-brand text-white shadow-lg' 
+                : 'text-zinc-500 hover:text-zinc-300'
             }`}
           >
-            <svg xmlns="http://www.w3.org/2000/svg" className="h-3.5 w-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-              {isLocked ? (
+            {option.mode === UpdateMode.LOCKED && (
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
-              ) : (
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M8 11V7a4 4 0 118 0m-4 8v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2z" />
-              )}
-            </svg>
-            <span className="text-[9px] font-black uppercase tracking-[0.2em]">{isLocked ? 'Locked' : 'Manual'}</span>
+              </svg>
+            )}
+            <span className="text-[9px] font-black uppercase tracking-[0.2em]">{option.label}</span>
           </button>
-        </div>
-      )}
+        ))}
+      </div>
 
       {/* Centered Feedback & Enhanced Visualizer */}
       {isListening && (
         <div className="absolute top-6 left-1/2 -translate-x-1/2 z-20 flex flex-col items-center space-y-4 pointer-events-none w-full px-12">
-          <div className="flex items-center space-x-2 px-3 py-1 rounded-full bg-black/60 backdrop-blur-xl border border-[#a34981]/20">
-            <div className={`w-1 h-1 rounded-full ${isLocked ? 'bg-zinc-700' : 'bg-[#a34981] animate-pulse'}`}></div>
-            <span className={`text-[8px] font-black uppercase tracking-[0.4em] ${isLocked ? 'text-zinc-600' : 'text-[#a34981]'}`}>
-              {isLocked ? 'Stationary' : 'IWC Live'}
+          <div className="flex items-center space-x-2 px-3 py-1 rounded-full bg-black/60 backdrop-blur-xl border border-brand/20">
+            <div className={`w-1 h-1 rounded-full ${isLocked ? 'bg-zinc-700' : 'bg-brand animate-pulse'}`}></div>
+            <span className={`text-[8px] font-black uppercase tracking-[0.4em] ${isLocked ? 'text-zinc-600' : 'text-brand'}`}>
+              {isLocked ? 'Stationary' : updateMode === UpdateMode.APPROVE ? 'Review' : theme.labels.liveLabel}
             </span>
           </div>
           
           {/* Nuanced Audio Visualization */}
           {!isLocked && (
-            <div className="flex items-center justify-center h-12 w-full max-w-xs overflow-hidden">
-              {renderWaveform()}
-            </div>
+            <>
+              <div className="flex items-center justify-center h-12 w-full max-w-xs overflow-hidden">
+                {renderWaveform()}
+              </div>
+              <span className={`text-[7px] font-black uppercase tracking-[0.4em] ${isSendingAudio ? 'text-brand/60' : 'text-zinc-600'}`}>
+                {isMusicMode ? 'Music Mode · Not Sending' : isSendingAudio ? 'Sending' : 'Silence · Not Sending'}
+              </span>
+            </>
           )}
         </div>
       )}
@@ -143,48 +175,41 @@ const DisplayScreen: React.FC<DisplayScreenProps> = ({
       >
         <div className="min-h-full flex flex-col items-center justify-center text-center">
           {verse ? (
-            <div key={verse.reference} className="text-reveal w-full max-w-4xl mx-auto flex flex-col items-center justify-center space-y-6 md:space-y-10">
+            <div key={verse.reference} className={`text-reveal w-full ${verse.parallels?.length ? 'max-w-6xl' : 'max-w-4xl'} mx-auto flex flex-col items-center justify-center space-y-6 md:space-y-10`}>
               
               {/* Header */}
               <div className="flex items-center space-x-4">
-                <div className="h-px w-6 bg-[#a34981]/20"></div>
-                <span className="text-[#a34981] text-[9px] sm:text-xs font-black tracking-[0.6em] uppercase">
-                  {verse.translation}
+                <div className="h-px w-6 bg-brand/20"></div>
+                <span className="text-brand text-[9px] sm:text-xs font-black tracking-[0.6em] uppercase">
+                  {[verse.translation, ...(verse.parallels ?? []).map(p => p.translation)].join(' · ')}
                 </span>
-                <div className="h-px w-6 bg-[#a34981]/20"></div>
+                <div className="h-px w-6 bg-brand/20"></div>
               </div>
+              {verse.verification === VerificationStatus.UNVERIFIED && (
+                <span className="-mt-4 md:-mt-8 text-[8px] font-black tracking-[0.4em] uppercase text-amber-700/80" title="No local text for this translation; showing the model's text">
+                  Unverified
+                </span>
+              )}
+              {verse.verification === VerificationStatus.CORRECTED && (
+                <span className="-mt-4 md:-mt-8 text-[8px] font-black tracking-[0.4em] uppercase text-zinc-600" title="The model's text differed and was replaced with the local text">
+                  Corrected
+                </span>
+              )}
               
               {/* Verse Text Body */}
               <div className="w-full flex-shrink-0">
-                <div 
-                  className="font-serif italic leading-[1.25] tracking-tight transition-all duration-700 text-zinc-100"
-                  style={{ fontSize: getDynamicFontSize(verse.text) }}
-                >
-                  <span className="text-[#a34981]/40 mr-1 text-[1.1em]">"</span>
-                  {words.map((word, i) => (
-                    <span 
-                      key={i} 
-                      className={`transition-all duration-300 inline-block mx-[0.1em] ${
-                        activeWordIndex === i 
-                          ? 'text-white scale-105 drop-shadow-[0_0_12px_rgba(163,73,129,0.8)]' 
-                          : activeWordIndex > i ? 'text-zinc-600' : 'text-zinc-200'
-                      }`}
-                    >
-                      {word}
-                    </span>
-                  ))}
-                  <span className="text-[#a34981]/40 ml-0.5 text-[1.1em]">"</span>
-                </div>
+                <ParallelVerseBody verse={verse} slide={slide} activeWordIndex={activeWordIndex} layout={parallelLayout} />
+                {verse.secondary && <div className="mt-6"><SecondaryVerse secondary={verse.secondary} slide={slide} /></div>}
               </div>
 
               {/* Reference with Navigation */}
               <div className="flex flex-col items-center space-y-4 pt-2">
-                <div className="h-px w-20 bg-gradient-to-r from-transparent via-[#a34981]/20 to-transparent"></div>
+                <div className="h-px w-20 bg-gradient-to-r from-transparent via-brand/20 to-transparent"></div>
                 <div className="flex items-center space-x-8">
                   <button 
                     onClick={onPrev}
                     className="p-3 rounded-full hover:bg-white/5 transition-all text-zinc-600 hover:text-zinc-200 active:scale-90 group"
-                    title="Previous Verse"
+                    title={slideIndex > 0 ? "Previous Slide" : "Previous Verse"}
                   >
                     <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M15 19l-7-7 7-7" />
@@ -199,25 +224,50 @@ const DisplayScreen: React.FC<DisplayScreenProps> = ({
                   <button 
                     onClick={onNext}
                     className="p-3 rounded-full hover:bg-white/5 transition-all text-zinc-600 hover:text-zinc-200 active:scale-90 group"
-                    title="Next Verse"
+                    title={slideIndex < slideCount - 1 ? "Next Slide" : "Next Verse"}
                   >
                     <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M9 5l7 7-7 7" />
                     </svg>
                   </button>
                 </div>
+
+                {verse.alternatives?.length && onChooseAlternative ? (
+                  <AlternativeChips alternatives={verse.alternatives} confidence={verse.confidence} onChoose={onChooseAlternative} />
+                ) : null}
+
+                {/* Passage Pagination */}
+                {slideCount > 1 && (
+                  <div className="flex items-center space-x-3">
+                    <div className="flex items-center space-x-1.5">
+                      {Array.from({ length: slideCount }).map((_, i) => (
+                        <button
+                          key={i}
+                          onClick={() => onSelectSlide?.(i)}
+                          className={`h-1.5 rounded-full transition-all duration-300 ${
+                            i === slideIndex ? 'w-5 bg-brand' : 'w-1.5 bg-zinc-700 hover:bg-zinc-500'
+                          }`}
+                          title={`Slide ${i + 1}`}
+                        ></button>
+                      ))}
+                    </div>
+                    <span className="text-[8px] font-black tracking-[0.3em] uppercase text-zinc-600">
+                      {slideIndex + 1} / {slideCount}
+                    </span>
+                  </div>
+                )}
               </div>
 
             </div>
           ) : (
             <div className="flex flex-col items-center space-y-8">
                <div className={`relative transition-all duration-1000 ${isListening ? 'scale-110' : 'scale-90 opacity-10'}`}>
-                 <div className={`absolute inset-0 bg-[#a34981]/10 blur-[60px] rounded-full transition-opacity duration-1000 ${isListening ? 'opacity-100' : 'opacity-0'}`}></div>
-                 <svg xmlns="http://www.w3.org/2000/svg" className={`h-20 w-20 sm:h-32 sm:w-32 transition-colors duration-1000 ${isListening ? 'text-[#a34981]/40' : 'text-zinc-800'}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                 <div className={`absolute inset-0 bg-brand/10 blur-[60px] rounded-full transition-opacity duration-1000 ${isListening ? 'opacity-100' : 'opacity-0'}`}></div>
+                 <svg xmlns="http://www.w3.org/2000/svg" className={`h-20 w-20 sm:h-32 sm:w-32 transition-colors duration-1000 ${isListening ? 'text-brand/40' : 'text-zinc-800'}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={0.3} d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" />
                  </svg>
                </div>
-               <p className={`text-[8px] font-black tracking-[0.8em] uppercase transition-colors duration-700 ${isListening ? 'text-[#a34981]' : 'text-zinc-900'}`}>
+               <p className={`text-[8px] font-black tracking-[0.8em] uppercase transition-colors duration-700 ${isListening ? 'text-brand' : 'text-zinc-900'}`}>
                  {isListening ? "Listening for Scripture" : "Session Idle"}
                </p>
             </div>
@@ -227,17 +277,33 @@ const DisplayScreen: React.FC<DisplayScreenProps> = ({
 
       {/* Recite Overlay */}
       {verse && (
-        <div className="absolute bottom-6 right-8 z-30">
+        <div className="absolute bottom-6 right-8 z-30 flex items-center space-x-2">
+          {isReading && (
+            <>
+              <button
+                onClick={onToggleRecitePause}
+                className="px-4 py-3 rounded-2xl border border-zinc-800 bg-black/80 backdrop-blur-2xl text-zinc-400 hover:text-zinc-100 text-[9px] font-black tracking-[0.2em] uppercase transition-all active:scale-95"
+              >
+                {isRecitePaused ? 'Resume' : 'Pause'}
+              </button>
+              <button
+                onClick={onStopRecite}
+                className="px-4 py-3 rounded-2xl border border-zinc-800 bg-black/80 backdrop-blur-2xl text-zinc-400 hover:text-red-700 text-[9px] font-black tracking-[0.2em] uppercase transition-all active:scale-95"
+              >
+                Stop
+              </button>
+            </>
+          )}
            <button 
             onClick={onReadAloud}
             disabled={isReading}
             className={`flex items-center space-x-3 px-5 py-3 rounded-2xl border transition-all duration-500 shadow-xl active:scale-95 ${
               isReading 
-                ? 'bg-[#a34981] text-white border-[#a34981]/30' 
-                : 'bg-black/80 backdrop-blur-2xl border-zinc-800 text-zinc-400 hover:border-[#a34981]/40 hover:text-zinc-100'
+                ? 'bg-brand text-white border-brand/30' 
+                : 'bg-black/80 backdrop-blur-2xl border-zinc-800 text-zinc-400 hover:border-brand/40 hover:text-zinc-100'
             }`}
           >
-            {isReading ? (
+            {isReading && !isRecitePaused ? (
               <div className="flex space-x-1 items-end h-3">
                 <div className="w-0.5 bg-white rounded-full animate-wave"></div>
                 <div className="w-0.5 bg-white rounded-full animate-wave animation-delay-100"></div>
@@ -249,15 +315,15 @@ const DisplayScreen: React.FC<DisplayScreenProps> = ({
                  <path d="M19.07 4.93C20.9447 6.80528 21.9979 9.34836 21.9979 12C21.9979 14.6516 20.9447 17.1947 19.07 19.07" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"/>
               </svg>
             )}
-            <span className="text-[9px] font-black tracking-[0.2em] uppercase">{isReading ? 'Reciting' : 'Recite'}</span>
+            <span className="text-[9px] font-black tracking-[0.2em] uppercase">{isReading ? (isRecitePaused ? 'Paused' : 'Reciting') : 'Recite'}</span>
           </button>
         </div>
       )}
 
       {/* Sync Floor */}
       {isListening && !isLocked && (
-        <div className="absolute bottom-0 left-0 h-[1.5px] w-full bg-[#a34981]/5 overflow-hidden">
-           <div className="h-full bg-[#a34981]/30 animate-[light-sweep_2s_linear_infinite] w-1/4 blur-[1px]"></div>
+        <div className="absolute bottom-0 left-0 h-[1.5px] w-full bg-brand/5 overflow-hidden">
+           <div className="h-full bg-brand/30 animate-[light-sweep_2s_linear_infinite] w-1/4 blur-[1px]"></div>
         </div>
       )}
     </div>
@@ -0,0 +1,181 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { CaptionSegment, HistoryEntry, VerseSource, VoiceCommandEntry } from '../types';
+import { downloadFile, formatDuration, inService, listServices, loadHistory, serviceEntries as entriesOf, serviceFileName, serviceLabel, toCSV, toJSON, toMarkdown, voiceCommandsToCSV } from '../utils/serviceHistory';
+import { downloadTranscript, loadCaptions } from '../utils/captions';
+import { loadVoiceCommandLog } from '../utils/voiceCommands';
+
+interface HistoryPanelProps {
+  onClose: () => void;
+}
+
+const SOURCE_LABELS: Record<VerseSource, string> = {
+  [VerseSource.AI]: 'AI',
+  [VerseSource.MANUAL]: 'Manual',
+  [VerseSource.CUE]: 'Cue',
+  [VerseSource.FOLLOW]: 'Follow-Along',
+};
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ onClose }) => {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [serviceId, setServiceId] = useState<string | null>(null);
+  const [captions, setCaptions] = useState<CaptionSegment[]>([]);
+  const [commands, setCommands] = useState<VoiceCommandEntry[]>([]);
+  const [view, setView] = useState<'verses' | 'commands'>('verses');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadHistory()
+      .then(all => {
+        setEntries(all);
+        setServiceId(listServices(all)[0]?.id ?? null);
+      })
+      .catch(err => setError(`Could not load history: ${err?.message || err}`));
+    loadVoiceCommandLog()
+      .then(setCommands)
+      .catch(err => console.warn('Could not load voice command log:', err));
+  }, []);
+
+  // Two services on the same day are listed separately
+  const services = useMemo(() => listServices(entries), [entries]);
+  const service = services.find(s => s.id === serviceId) ?? null;
+
+  useEffect(() => {
+    if (!service) return;
+    loadCaptions(service)
+      .then(setCaptions)
+      .catch(err => console.warn('Could not load transcript:', err));
+  }, [service?.id]);
+
+  const serviceEntries = service ? entriesOf(entries, service) : [];
+  const serviceCommands = service ? commands.filter(c => inService(c, c.at, service)) : [];
+
+  const handleExport = (format: 'json' | 'csv' | 'md') => {
+    if (!service) return;
+    if (view === 'commands') {
+      const name = `${serviceFileName(service)}-voice-commands`;
+      if (format === 'json') downloadFile(`${name}.json`, JSON.stringify(serviceCommands, null, 2), 'application/json');
+      if (format === 'csv') downloadFile(`${name}.csv`, voiceCommandsToCSV(serviceCommands), 'text/csv');
+      return;
+    }
+    const name = serviceFileName(service);
+    if (format === 'json') downloadFile(`${name}.json`, toJSON(serviceEntries), 'application/json');
+    if (format === 'csv') downloadFile(`${name}.csv`, toCSV(serviceEntries), 'text/csv');
+    if (format === 'md') downloadFile(`${name}.md`, toMarkdown(serviceEntries, `Scripture List — ${serviceLabel(service)}`), 'text/markdown');
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-6" onClick={onClose}>
+      <div className="w-full max-w-3xl max-h-full flex flex-col rounded-[2rem] border border-zinc-800 bg-[#0a0a0c] overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="px-8 pt-7 pb-4 flex items-center justify-between">
+          <div className="flex items-center space-x-4">
+            <h2 className="text-[10px] font-black tracking-[0.4em] uppercase text-zinc-400">Service History</h2>
+            {services.length > 0 && (
+              <select
+                value={serviceId ?? ''}
+                onChange={e => setServiceId(e.target.value)}
+                className="px-3 py-1 rounded-lg bg-black border border-zinc-800 text-[10px] text-zinc-400 outline-none"
+              >
+                {services.map(s => <option key={s.id} value={s.id}>{serviceLabel(s)}</option>)}
+              </select>
+            )}
+            <div className="flex items-center p-0.5 rounded-full border border-zinc-800">
+              {(['verses', 'commands'] as const).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setView(option)}
+                  className={`px-3 py-0.5 rounded-full text-[8px] font-black uppercase tracking-[0.2em] transition-colors ${view === option ? 'bg-zinc-800 text-zinc-200' : 'text-zinc-600 hover:text-zinc-300'}`}
+                >
+                  {option === 'verses' ? 'Verses' : `Voice Commands (${serviceCommands.length})`}
+                </button>
+              ))}
+            </div>
+          </div>
+          <button onClick={onClose} className="text-[9px] font-bold uppercase tracking-widest text-zinc-600 hover:text-zinc-300">Close</button>
+        </div>
+
+        <div className="flex-1 min-h-0 overflow-y-auto scrollbar-hide px-8">
+          {view === 'commands' ? (
+            serviceCommands.length === 0 ? (
+              <p className="py-12 text-center text-[8px] font-black uppercase tracking-[0.4em] text-zinc-800">No Voice Commands Logged</p>
+            ) : (
+              <table className="w-full text-left text-[10px]">
+                <thead className="text-[8px] font-black uppercase tracking-[0.2em] text-zinc-600">
+                  <tr>
+                    <th className="py-2">Time</th>
+                    <th>Command</th>
+                    <th>Heard</th>
+                    <th className="text-right">Result</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {serviceCommands.map(entry => (
+                    <tr key={entry.id} className={`border-t border-zinc-900 ${entry.honored ? 'text-zinc-300' : 'text-zinc-700'}`}>
+                      <td className="py-2 text-zinc-600">{new Date(entry.at).toLocaleTimeString()}</td>
+                      <td className="font-bold tracking-wider">{entry.name}</td>
+                      <td className="italic">{entry.utterance ? `“${entry.utterance}”` : ''}</td>
+                      <td className="text-right">{entry.honored ? 'Honored' : entry.reason}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )
+          ) : serviceEntries.length === 0 ? (
+            <p className="py-12 text-center text-[8px] font-black uppercase tracking-[0.4em] text-zinc-800">{error ?? 'No Verses Logged'}</p>
+          ) : (
+            <table className="w-full text-left text-[10px]">
+              <thead className="text-[8px] font-black uppercase tracking-[0.2em] text-zinc-600">
+                <tr>
+                  <th className="py-2">Time</th>
+                  <th>Reference</th>
+                  <th>Translation</th>
+                  <th>Source</th>
+                  <th className="text-right">On Screen</th>
+                </tr>
+              </thead>
+              <tbody>
+                {serviceEntries.map(entry => (
+                  <tr key={entry.id} className={`border-t border-zinc-900 ${entry.blocked ? 'text-zinc-700' : 'text-zinc-300'}`}>
+                    <td className="py-2 text-zinc-600">{new Date(entry.shownAt).toLocaleTimeString()}</td>
+                    <td className="font-bold tracking-wider">{entry.reference}</td>
+                    <td>{entry.translation}</td>
+                    <td>{SOURCE_LABELS[entry.source]}</td>
+                    <td className="text-right">{entry.blocked ? 'Blocked by Lock' : formatDuration(entry.durationMs)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="px-8 py-5 border-t border-zinc-900 flex items-center justify-end space-x-2">
+          {captions.length > 0 && (
+            <div className="mr-auto flex items-center space-x-2">
+              <span className="text-[8px] font-black uppercase tracking-[0.2em] text-zinc-600">Transcript</span>
+              {(['txt', 'vtt'] as const).map(format => (
+                <button
+                  key={format}
+                  onClick={() => service && downloadTranscript(captions, service, format)}
+                  className="px-4 py-2 rounded-xl border border-zinc-800 text-zinc-400 hover:text-zinc-100 text-[9px] font-black uppercase tracking-[0.2em] transition-colors"
+                >
+                  {format === 'txt' ? 'Text' : 'WebVTT'}
+                </button>
+              ))}
+            </div>
+          )}
+          {(view === 'commands' ? ['json', 'csv'] as const : ['json', 'csv', 'md'] as const).map(format => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              disabled={view === 'commands' ? !serviceCommands.length : !serviceEntries.length}
+              className="px-4 py-2 rounded-xl border border-zinc-800 disabled:opacity-30 text-zinc-400 hover:text-zinc-100 text-[9px] font-black uppercase tracking-[0.2em] transition-colors"
+            >
+              {format === 'md' ? 'Markdown' : format.toUpperCase()}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
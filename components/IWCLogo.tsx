@@ -7,10 +7,10 @@ interface IWCLogoProps {
 const IWCLogo: React.FC<IWCLogoProps> = ({ className = "w-12 h-12" }) => {
   return (
     <div className={`relative flex items-center justify-center ${className}`}>
-      <svg viewBox="0 0 100 100" className="w-full h-full drop-shadow-[0_0_15px_rgba(163,73,129,0.3)]">
+      <svg viewBox="0 0 100 100" className="w-full h-full drop-shadow-[0_0_15px_rgb(var(--brand-rgb)/0.3)]">
         {/* Outer Ring of Inspiration */}
-        <circle cx="50" cy="50" r="48" fill="none" stroke="#a34981" strokeWidth="1" className="opacity-20" />
-        <circle cx="50" cy="50" r="45" fill="none" stroke="#a34981" strokeWidth="0.5" className="opacity-10" />
+        <circle cx="50" cy="50" r="48" fill="none" style={{ stroke: 'rgb(var(--brand-rgb))' }} strokeWidth="1" className="opacity-20" />
+        <circle cx="50" cy="50" r="45" fill="none" style={{ stroke: 'rgb(var(--brand-rgb))' }} strokeWidth="0.5" className="opacity-10" />
         
         {/* The "IWC" Typography - Serif and Bold */}
         <text 
@@ -32,14 +32,14 @@ const IWCLogo: React.FC<IWCLogoProps> = ({ className = "w-12 h-12" }) => {
         <path 
           d="M 30 75 Q 50 85 70 75" 
           fill="none" 
-          stroke="#a34981" 
+          style={{ stroke: 'rgb(var(--brand-rgb))' }} 
           strokeWidth="3" 
           strokeLinecap="round"
           className="opacity-80 shadow-inner"
         />
         
         {/* Glow point */}
-        <circle cx="50" cy="22" r="3" fill="#a34981" className="animate-pulse">
+        <circle cx="50" cy="22" r="3" style={{ fill: 'rgb(var(--brand-rgb))' }} className="animate-pulse">
           <animate attributeName="opacity" values="0.4;1;0.4" dur="2s" repeatCount="indefinite" />
         </circle>
       </svg>
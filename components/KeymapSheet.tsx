@@ -0,0 +1,102 @@
+import React, { useEffect, useState } from 'react';
+import { Keymap, OperatorAction } from '../types';
+import { ACTION_LABELS, DEFAULT_KEYMAP, assignKey, keyFromEvent, removeKey } from '../utils/keymap';
+
+interface KeymapSheetProps {
+  keymap: Keymap;
+  onChange: (keymap: Keymap) => void;
+  onClose: () => void;
+}
+
+const KEY_LABELS: Record<string, string> = {
+  ArrowRight: '→',
+  ArrowLeft: '←',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  PageDown: 'Pg Dn',
+  PageUp: 'Pg Up',
+  Delete: 'Del',
+  Backspace: '⌫',
+  Escape: 'Esc',
+};
+
+const formatKey = (key: string) => key.split('+').map(part => KEY_LABELS[part] ?? part).join(' + ');
+
+// Cheat sheet of operator shortcuts; clicking "+" on a row captures the next key press
+const KeymapSheet: React.FC<KeymapSheetProps> = ({ keymap, onChange, onClose }) => {
+  const [capturing, setCapturing] = useState<OperatorAction | null>(null);
+
+  useEffect(() => {
+    const handleKey = (event: KeyboardEvent) => {
+      if (!capturing) {
+        if (event.key === 'Escape') onClose();
+        return;
+      }
+      event.preventDefault();
+      event.stopPropagation();
+      if (event.key === 'Escape') {
+        setCapturing(null);
+        return;
+      }
+      const key = keyFromEvent(event);
+      if (!key) return;
+      onChange(assignKey(keymap, capturing, key));
+      setCapturing(null);
+    };
+    // Capture phase so a key being learned never also triggers its old action
+    window.addEventListener('keydown', handleKey, true);
+    return () => window.removeEventListener('keydown', handleKey, true);
+  }, [capturing, keymap, onChange, onClose]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-6" onClick={onClose}>
+      <div className="w-full max-w-lg max-h-full flex flex-col rounded-[2rem] border border-zinc-800 bg-[#0a0a0c] overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="px-8 pt-7 pb-4 flex items-center justify-between">
+          <h2 className="text-[10px] font-black tracking-[0.4em] uppercase text-zinc-400">Keyboard & Clicker</h2>
+          <div className="flex items-center space-x-4">
+            <button
+              onClick={() => onChange(DEFAULT_KEYMAP)}
+              className="text-[9px] font-bold uppercase tracking-widest text-zinc-600 hover:text-zinc-300"
+            >
+              Reset
+            </button>
+            <button onClick={onClose} className="text-[9px] font-bold uppercase tracking-widest text-zinc-600 hover:text-zinc-300">Close</button>
+          </div>
+        </div>
+
+        <div className="flex-1 min-h-0 overflow-y-auto scrollbar-hide px-8 pb-7 space-y-1">
+          {(Object.keys(ACTION_LABELS) as OperatorAction[]).map(action => (
+            <div key={action} className="flex items-center justify-between py-2 border-b border-zinc-900">
+              <span className="text-[10px] font-bold uppercase tracking-widest text-zinc-400">{ACTION_LABELS[action]}</span>
+              <div className="flex flex-wrap justify-end items-center gap-1.5">
+                {keymap[action].map(key => (
+                  <button
+                    key={key}
+                    onClick={() => onChange(removeKey(keymap, action, key))}
+                    title="Remove this key"
+                    className="px-2 py-0.5 rounded-md border border-zinc-700 bg-zinc-900 text-[10px] font-mono text-zinc-300 hover:border-red-900 hover:text-red-400 transition-colors"
+                  >
+                    {formatKey(key)}
+                  </button>
+                ))}
+                <button
+                  onClick={() => setCapturing(capturing === action ? null : action)}
+                  className={`px-2 py-0.5 rounded-md border text-[10px] font-bold transition-colors ${
+                    capturing === action ? 'border-brand text-brand animate-pulse' : 'border-zinc-800 text-zinc-600 hover:text-zinc-300'
+                  }`}
+                >
+                  {capturing === action ? 'Press a key…' : '+'}
+                </button>
+              </div>
+            </div>
+          ))}
+          <p className="pt-4 text-[8px] font-black uppercase tracking-[0.3em] text-zinc-700">
+            Press ? at any time to open this sheet
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default KeymapSheet;
@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { DisplayState, OutputState } from '../types';
+import ParallelVerseBody from './ParallelVerseBody';
+import BrandLogo from './BrandLogo';
+import { buildLowerThirdUrl } from '../utils/lowerThird';
+import { outputCssVars } from '../utils/theme';
+import { useTheme } from './ThemeProvider';
+
+interface LivePreviewProps {
+  output: OutputState;
+  outputCount: number;
+  onOpenOutput: () => void;
+  onChangeDisplayState: (state: DisplayState) => void;
+}
+
+const DISPLAY_OPTIONS = [
+  { state: DisplayState.VERSE, label: 'Verse', title: 'Show the current verse' },
+  { state: DisplayState.BLANK, label: 'Blank', title: 'Black screen; the verse stays ready to restore' },
+  { state: DisplayState.LOGO, label: 'Logo', title: 'Show the church logo only' },
+  { state: DisplayState.CLEAR, label: 'Clear', title: 'Take the verse down' },
+];
+
+// Thumbnail of what the audience output is currently showing
+const LivePreview: React.FC<LivePreviewProps> = ({ output, outputCount, onOpenOutput, onChangeDisplayState }) => {
+  const { verse, slide, slideIndex, slideCount, displayState, parallelLayout } = output;
+  const [copied, setCopied] = useState(false);
+  const { theme } = useTheme();
+
+  const handleCopyLowerThird = () => {
+    navigator.clipboard.writeText(buildLowerThirdUrl())
+      .then(() => {
+        setCopied(true);
+        setTimeout(() => setCopied(false), 2000);
+      })
+      .catch(err => console.error('Could not copy lower-third URL:', err));
+  };
+
+  const renderContent = () => {
+    if (displayState === DisplayState.LOGO) return <BrandLogo className="w-12 h-12" />;
+    if (displayState === DisplayState.VERSE && verse) {
+      return (
+        <>
+          <div className="max-h-[70%] overflow-hidden">
+            <ParallelVerseBody verse={verse} slide={slide} layout={parallelLayout} fontSize="0.55rem" />
+          </div>
+          <p className="mt-1 text-[6px] font-bold tracking-[0.3em] uppercase text-zinc-500">
+            {verse.reference}{slideCount > 1 ? ` · ${slideIndex + 1}/${slideCount}` : ''}
+          </p>
+        </>
+      );
+    }
+    return <span className="text-[7px] font-black uppercase tracking-[0.4em] text-zinc-800">Blank</span>;
+  };
+
+  return (
+    <div className="w-60 space-y-2">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <div className={`w-1.5 h-1.5 rounded-full ${outputCount > 0 ? 'bg-red-600 animate-pulse' : 'bg-zinc-800'}`} />
+          <span className="text-[8px] font-black uppercase tracking-[0.3em] text-zinc-500">
+            {outputCount > 0 ? 'On Air' : 'No Output'}
+          </span>
+        </div>
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={handleCopyLowerThird}
+            className="text-[8px] font-black uppercase tracking-[0.2em] text-zinc-600 hover:text-zinc-300 transition-colors"
+            title="Copy the transparent lower-third URL for a streaming browser source"
+          >
+            {copied ? 'Copied' : 'Lower Third'}
+          </button>
+          <button
+            onClick={onOpenOutput}
+            className="text-[8px] font-black uppercase tracking-[0.2em] text-zinc-600 hover:text-zinc-300 transition-colors"
+          >
+            Open Output
+          </button>
+        </div>
+      </div>
+      <div
+        className="aspect-video rounded-xl border border-zinc-800 bg-[rgb(var(--output-bg-rgb))] overflow-hidden flex flex-col items-center justify-center px-4 text-center"
+        style={outputCssVars(theme) as React.CSSProperties}
+      >
+        {renderContent()}
+      </div>
+      <div className="flex items-center p-0.5 rounded-full border border-zinc-800 bg-black/40">
+        {DISPLAY_OPTIONS.map(option => (
+          <button
+            key={option.state}
+            onClick={() => onChangeDisplayState(option.state)}
+            title={option.title}
+            className={`flex-1 py-0.5 rounded-full text-[8px] font-black uppercase tracking-[0.15em] transition-colors ${
+              displayState === option.state ? 'bg-brand text-white' : 'text-zinc-600 hover:text-zinc-300'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default LivePreview;
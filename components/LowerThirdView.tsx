@@ -0,0 +1,64 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { DisplayState, OutputState } from '../types';
+import { EMPTY_OUTPUT, subscribeToOutput } from '../utils/outputChannel';
+import { parseLowerThirdOptions } from '../utils/lowerThird';
+
+const ALIGN_CLASSES = {
+  left: 'items-start text-left',
+  center: 'items-center text-center',
+  right: 'items-end text-right',
+};
+
+// Transparent livestream overlay that follows the same live verse as the projector
+const LowerThirdView: React.FC = () => {
+  const [output, setOutput] = useState<OutputState>(EMPTY_OUTPUT);
+  const options = useMemo(() => parseLowerThirdOptions(new URLSearchParams(window.location.search)), []);
+  // Keeps the last verse rendered while the bar animates out
+  const lastShownRef = useRef<OutputState>(EMPTY_OUTPUT);
+
+  useEffect(() => subscribeToOutput(setOutput), []);
+
+  useEffect(() => {
+    document.title = 'Inspired AI | Lower Third';
+    // index.html paints the console background; stream overlays must stay see-through
+    document.documentElement.style.background = 'transparent';
+    document.body.style.background = 'transparent';
+  }, []);
+
+  const isShown = output.displayState === DisplayState.VERSE && !!output.verse;
+  if (output.verse) lastShownRef.current = output;
+  const { verse, slide, slideIndex } = lastShownRef.current;
+  const isTop = options.position === 'top';
+
+  return (
+    <div
+      className={`h-screen w-screen flex flex-col overflow-hidden cursor-none ${isTop ? 'justify-start' : 'justify-end'} ${ALIGN_CLASSES[options.align]}`}
+      style={{ padding: `${options.margin}vh ${options.margin}vw` }}
+    >
+      <div className={`max-w-[80vw] transition-all duration-500 ease-out ${
+        isShown ? 'opacity-100 translate-y-0' : `opacity-0 ${isTop ? '-translate-y-8' : 'translate-y-8'}`
+      }`}>
+        {verse && (
+          <div key={`${verse.reference}-${slideIndex}`} className={`text-reveal flex flex-col space-y-[1vh] px-[2.5vw] py-[2vh] rounded-2xl bg-black/75 border-l-4 border-brand ${ALIGN_CLASSES[options.align]}`}>
+            <span className="font-black tracking-[0.4em] uppercase text-brand" style={{ fontSize: 'clamp(0.7rem, 1.6vw, 1.4rem)' }}>
+              {verse.reference} · {verse.translation}
+            </span>
+            <p
+              className="font-serif italic leading-snug text-white overflow-hidden"
+              style={{
+                fontSize: 'clamp(1rem, 2.6vw, 2.4rem)',
+                display: '-webkit-box',
+                WebkitBoxOrient: 'vertical',
+                WebkitLineClamp: options.maxLines,
+              }}
+            >
+              {slide?.text ?? verse.text}
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LowerThirdView;
@@ -0,0 +1,126 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { SessionMetrics } from '../types';
+import { formatDuration, serviceLabel } from '../utils/serviceHistory';
+import { combineMetrics, countToolCalls, estimateCost, loadMetrics, percentile, sessionDuration } from '../utils/sessionMetrics';
+
+interface MetricsPanelProps {
+  // The running session, or the last one after it stops
+  live: SessionMetrics | null;
+}
+
+const formatLatency = (ms: number | null) => ms === null ? '—' : `${(ms / 1000).toFixed(1)}s`;
+const formatMegabytes = (bytes: number) => `${(bytes / 1_000_000).toFixed(1)} MB`;
+const formatCost = (usd: number) => `$${usd.toFixed(usd < 1 ? 3 : 2)}`;
+
+const Stat: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div>
+    <p className="text-[7px] font-black uppercase tracking-[0.3em] text-zinc-600">{label}</p>
+    <p className="text-[11px] font-bold text-zinc-300">{value}</p>
+  </div>
+);
+
+// Operator-only performance readout; past services load when it is expanded
+const MetricsPanel: React.FC<MetricsPanelProps> = ({ live }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [saved, setSaved] = useState<SessionMetrics[]>([]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    loadMetrics().then(setSaved).catch(err => console.warn('Could not load session metrics:', err));
+  }, [isOpen, live?.id]);
+
+  // One row per service, newest first
+  const services = useMemo(() => {
+    const byService = new Map<string, SessionMetrics[]>();
+    saved.forEach(s => {
+      const key = s.serviceId ?? s.serviceDate;
+      byService.set(key, [...(byService.get(key) ?? []), s]);
+    });
+    return Array.from(byService.entries())
+      .map(([id, sessions]) => ({
+        id,
+        label: serviceLabel({ id, serviceDate: sessions[0].serviceDate, startedAt: sessions[0].startedAt }),
+        sessions,
+        total: combineMetrics(sessions)!,
+      }))
+      .reverse()
+      .slice(0, 8);
+  }, [saved]);
+
+  const p50 = live ? percentile(live.latenciesMs, 50) : null;
+
+  return (
+    <div className="relative">
+      {/* Opens upward over the console so it never pushes the layout around */}
+      {isOpen && (
+        <div className="absolute right-0 bottom-full mb-2 z-40 w-[26rem] max-w-[calc(100vw-2rem)] max-h-[60vh] overflow-y-auto scrollbar-hide rounded-2xl border border-zinc-800 bg-[#0a0a0c] p-4 space-y-4">
+          {live ? (
+            <>
+              <div className="grid grid-cols-4 gap-3">
+                <Stat label="Session" value={formatDuration(live.endedAt - live.startedAt)} />
+                <Stat label="Latency p50" value={formatLatency(p50)} />
+                <Stat label="Latency p90" value={formatLatency(percentile(live.latenciesMs, 90))} />
+                <Stat label="Reconnects" value={String(live.reconnects)} />
+                <Stat label="Audio Sent" value={formatMegabytes(live.audioBytesSent)} />
+                <Stat label="Audio Received" value={formatMegabytes(live.audioBytesReceived)} />
+                <Stat label="Tokens" value={live.inputTokens || live.outputTokens ? `${live.inputTokens + live.outputTokens}` : '—'} />
+                <Stat label="Est. Cost" value={formatCost(estimateCost(live))} />
+              </div>
+              <div>
+                <p className="text-[7px] font-black uppercase tracking-[0.3em] text-zinc-600 mb-1">Tool Calls</p>
+                {Object.keys(live.toolCalls).length === 0 && <p className="text-[9px] text-zinc-700">None yet</p>}
+                {Object.entries(live.toolCalls).map(([name, results]) => (
+                  <div key={name} className="flex justify-between text-[9px] py-0.5">
+                    <span className="font-bold text-zinc-400">{name}</span>
+                    <span className="text-zinc-600 text-right">
+                      {Object.entries(results).map(([result, count]) => `${result} ${count}`).join(' · ')}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </>
+          ) : (
+            <p className="text-[8px] font-black uppercase tracking-[0.4em] text-zinc-700 text-center">No Session Yet</p>
+          )}
+
+          {services.length > 0 && (
+            <table className="w-full text-left text-[9px]">
+              <thead className="text-[7px] font-black uppercase tracking-[0.2em] text-zinc-600">
+                <tr>
+                  <th className="py-1">Service</th>
+                  <th>Length</th>
+                  <th>p50</th>
+                  <th>Calls</th>
+                  <th>Blocked</th>
+                  <th>Audio</th>
+                  <th className="text-right">Cost</th>
+                </tr>
+              </thead>
+              <tbody>
+                {services.map(({ id, label, sessions, total }) => (
+                  <tr key={id} className="border-t border-zinc-900 text-zinc-400">
+                    <td className="py-1 text-zinc-500">{label}</td>
+                    <td>{formatDuration(sessionDuration(sessions))}</td>
+                    <td>{formatLatency(percentile(total.latenciesMs, 50))}</td>
+                    <td>{countToolCalls(total)}</td>
+                    <td>{countToolCalls(total, 'update_blocked_by_manual_lock')}</td>
+                    <td>{formatMegabytes(total.audioBytesSent + total.audioBytesReceived)}</td>
+                    <td className="text-right">{formatCost(estimateCost(total))}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="px-3 py-1.5 rounded-full border border-zinc-800 bg-black/40 text-[8px] font-black uppercase tracking-[0.2em] text-zinc-600 hover:text-zinc-300 transition-colors"
+      >
+        Metrics{live ? ` · ${formatLatency(p50)} · ${countToolCalls(live)} calls · ${formatCost(estimateCost(live))}` : ''}
+      </button>
+    </div>
+  );
+};
+
+export default MetricsPanel;
@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { ParallelLayout } from '../types';
+import { COMMON_TRANSLATIONS, MAX_PARALLEL, ParallelSettings } from '../utils/parallelText';
+
+interface ParallelPickerProps {
+  settings: ParallelSettings;
+  primaryTranslation: string;
+  onChange: (settings: ParallelSettings) => void;
+}
+
+const LAYOUT_OPTIONS = [
+  { layout: ParallelLayout.COLUMNS, label: 'Side by Side' },
+  { layout: ParallelLayout.STACKED, label: 'Stacked' },
+];
+
+const ParallelPicker: React.FC<ParallelPickerProps> = ({ settings, primaryTranslation, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const { translations, layout } = settings;
+  const options = COMMON_TRANSLATIONS.filter(t => t !== primaryTranslation.toUpperCase());
+
+  const toggle = (translation: string) => {
+    const next = translations.includes(translation)
+      ? translations.filter(t => t !== translation)
+      : [...translations, translation].slice(-MAX_PARALLEL);
+    onChange({ ...settings, translations: next });
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className={`text-[9px] font-bold uppercase tracking-widest px-3 py-1 rounded-full border transition-colors ${
+          translations.length ? 'text-brand border-brand/40' : 'text-zinc-600 hover:text-zinc-300 border-zinc-800'
+        }`}
+        title="Show other translations alongside the primary one"
+      >
+        {translations.length ? `Parallel · ${translations.join(' / ')}` : 'Parallel'}
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-64 p-4 space-y-4 rounded-2xl border border-zinc-800 bg-[#0a0a0c] shadow-2xl z-40">
+          <div className="space-y-2">
+            <p className="text-[8px] font-black uppercase tracking-[0.3em] text-zinc-600">
+              Alongside {primaryTranslation} (up to {MAX_PARALLEL})
+            </p>
+            <div className="flex flex-wrap gap-1.5">
+              {options.map(translation => (
+                <button
+                  key={translation}
+                  onClick={() => toggle(translation)}
+                  className={`px-2 py-0.5 rounded-md border text-[10px] font-bold transition-colors ${
+                    translations.includes(translation) ? 'bg-brand border-brand text-white' : 'border-zinc-800 text-zinc-500 hover:text-zinc-300'
+                  }`}
+                >
+                  {translation}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="flex items-center p-0.5 rounded-full border border-zinc-800 bg-black/40">
+            {LAYOUT_OPTIONS.map(option => (
+              <button
+                key={option.layout}
+                onClick={() => onChange({ ...settings, layout: option.layout })}
+                className={`flex-1 py-0.5 rounded-full text-[8px] font-black uppercase tracking-[0.15em] transition-colors ${
+                  layout === option.layout ? 'bg-brand text-white' : 'text-zinc-600 hover:text-zinc-300'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <p className="text-[8px] text-zinc-700 leading-relaxed">Applies from the next verse shown.</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ParallelPicker;
@@ -0,0 +1,52 @@
+import React from 'react';
+import { ParallelLayout, Slide, VerificationStatus, VerseData } from '../types';
+import { alignParallelSlide, balancedLength } from '../utils/parallelText';
+import VerseBody, { getFontSizeForLength } from './VerseBody';
+
+interface ParallelVerseBodyProps {
+  verse: VerseData;
+  slide?: Slide | null;
+  activeWordIndex?: number;
+  layout: ParallelLayout;
+  // Overrides the balanced sizing, e.g. for thumbnails
+  fontSize?: string;
+}
+
+// The primary translation plus any parallels, sized together so no column overflows
+const ParallelVerseBody: React.FC<ParallelVerseBodyProps> = ({ verse, slide, activeWordIndex = -1, layout, fontSize }) => {
+  if (!verse.parallels?.length) {
+    return <VerseBody verse={verse} slide={slide} activeWordIndex={activeWordIndex} fontSize={fontSize} />;
+  }
+
+  const columns = [
+    { translation: verse.translation, verse, slide, verification: verse.verification },
+    ...verse.parallels.map(parallel => ({
+      translation: parallel.translation,
+      verse: { ...verse, translation: parallel.translation, text: parallel.text, verses: parallel.verses },
+      slide: alignParallelSlide(parallel, slide),
+      verification: parallel.verification,
+    })),
+  ];
+  const size = fontSize ?? getFontSizeForLength(balancedLength(columns.map(c => c.slide?.text ?? c.verse.text), layout));
+
+  return (
+    <div className={layout === ParallelLayout.COLUMNS
+      ? `w-full grid gap-[3vw] ${columns.length === 3 ? 'grid-cols-3' : 'grid-cols-2'}`
+      : 'w-full flex flex-col space-y-[2vh]'}
+    >
+      {columns.map((column, i) => (
+        <div key={column.translation} className={`flex flex-col items-center space-y-2 ${
+          layout === ParallelLayout.STACKED && i > 0 ? 'pt-[2vh] border-t border-brand/10' : ''
+        }`}>
+          <span className="text-brand text-[0.6em] font-black tracking-[0.5em] uppercase" style={{ fontSize: 'clamp(0.5rem, 0.9vw, 0.75rem)' }}>
+            {column.translation}
+            {column.verification === VerificationStatus.UNVERIFIED && <span className="ml-2 text-amber-700/80">· Unverified</span>}
+          </span>
+          <VerseBody verse={column.verse} slide={column.slide} activeWordIndex={i === 0 ? activeWordIndex : -1} fontSize={size} />
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ParallelVerseBody;
@@ -0,0 +1,67 @@
+import React from 'react';
+import { PendingVerse, ScriptureReference } from '../types';
+import AlternativeChips from './AlternativeChips';
+
+interface PendingQueueProps {
+  items: PendingVerse[];
+  onApprove: (id: string) => void;
+  onReject: (id: string) => void;
+  onChooseAlternative: (id: string, reference: ScriptureReference) => void;
+}
+
+// Operator-only list of AI-detected verses awaiting approval; the oldest is first
+const PendingQueue: React.FC<PendingQueueProps> = ({ items, onApprove, onReject, onChooseAlternative }) => {
+  return (
+    <div className="h-full flex flex-col rounded-[2rem] border border-zinc-800/50 bg-[#0a0a0c] overflow-hidden">
+      <div className="px-5 pt-5 pb-3 flex items-center justify-between">
+        <span className="text-[9px] font-black uppercase tracking-[0.3em] text-zinc-500">Pending</span>
+        <span className="text-[8px] font-bold uppercase tracking-[0.2em] text-zinc-700">Enter: Go Live · Del: Discard</span>
+      </div>
+      <div className="flex-1 overflow-y-auto scrollbar-hide px-3 pb-3 space-y-2">
+        {items.length === 0 && (
+          <p className="px-2 pt-6 text-center text-[8px] font-black uppercase tracking-[0.4em] text-zinc-800">Queue Empty</p>
+        )}
+        {items.map((item, i) => (
+          <div
+            key={item.id}
+            className={`p-3 rounded-2xl border transition-colors ${i === 0 ? 'border-brand/40 bg-brand/5' : 'border-zinc-800 bg-black/30'}`}
+          >
+            <div className="flex items-center justify-between">
+              <span className="text-[10px] font-bold uppercase tracking-[0.2em] text-zinc-300">
+                {item.verse.reference}
+                {item.lowConfidence && <span className="ml-2 text-[8px] text-amber-700" title="Held back because the model was unsure of the reference">Unsure</span>}
+              </span>
+              <span className="text-[8px] font-black uppercase tracking-[0.2em] text-brand">{item.verse.translation}</span>
+            </div>
+            <p className="mt-2 font-serif italic text-xs text-zinc-500 line-clamp-3">{item.verse.text}</p>
+            {item.verse.alternatives?.length ? (
+              <div className="mt-3">
+                <AlternativeChips
+                  alternatives={item.verse.alternatives}
+                  confidence={item.verse.confidence}
+                  onChoose={reference => onChooseAlternative(item.id, reference)}
+                />
+              </div>
+            ) : null}
+            <div className="mt-3 flex space-x-2">
+              <button
+                onClick={() => onApprove(item.id)}
+                className="flex-1 py-1.5 rounded-xl bg-brand text-white text-[8px] font-black uppercase tracking-[0.2em] active:scale-95 transition-all"
+              >
+                Go Live
+              </button>
+              <button
+                onClick={() => onReject(item.id)}
+                className="px-3 py-1.5 rounded-xl border border-zinc-800 text-zinc-500 hover:text-zinc-200 text-[8px] font-black uppercase tracking-[0.2em] active:scale-95 transition-all"
+              >
+                Discard
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default PendingQueue;
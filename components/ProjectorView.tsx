@@ -0,0 +1,76 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { DisplayState, OutputState } from '../types';
+import { EMPTY_OUTPUT, subscribeToOutput } from '../utils/outputChannel';
+import ParallelVerseBody from './ParallelVerseBody';
+import SecondaryVerse from './SecondaryVerse';
+import BrandLogo from './BrandLogo';
+import { useTheme } from './ThemeProvider';
+import { outputCssVars } from '../utils/theme';
+
+// Audience-facing output: mirrors the operator's live verse with no controls
+const ProjectorView: React.FC = () => {
+  const [output, setOutput] = useState<OutputState>(EMPTY_OUTPUT);
+  const { theme, background } = useTheme();
+  // Keeps the last verse rendered while it fades out after a clear
+  const lastShownRef = useRef<OutputState>(EMPTY_OUTPUT);
+
+  useEffect(() => subscribeToOutput(setOutput), []);
+
+  useEffect(() => {
+    document.title = 'Inspired AI | Output';
+  }, []);
+
+  const showVerse = output.displayState === DisplayState.VERSE && !!output.verse;
+  if (output.verse) lastShownRef.current = output;
+  const { verse, slide, slideIndex, activeWordIndex, parallelLayout } = lastShownRef.current;
+  const caption = output.displayState !== DisplayState.BLANK ? output.caption : null;
+
+  return (
+    <div
+      className={`relative h-screen w-screen flex items-center justify-center bg-[rgb(var(--output-bg-rgb))] overflow-hidden cursor-none px-[6vw] pt-[6vh] ${caption ? 'pb-[16vh]' : 'pb-[6vh]'}`}
+      style={outputCssVars(theme) as React.CSSProperties}
+    >
+      {background && (
+        <>
+          {background.type === 'video'
+            ? <video src={background.url} autoPlay muted loop playsInline className="absolute inset-0 w-full h-full object-cover" />
+            : <img src={background.url} alt="" className="absolute inset-0 w-full h-full object-cover" />}
+          {/* Keeps verse text readable over busy backgrounds */}
+          <div className="absolute inset-0 bg-[rgb(var(--output-bg-rgb)/0.55)]" />
+        </>
+      )}
+      <div className={`relative w-full flex justify-center transition-opacity duration-700 ${showVerse ? 'opacity-100' : 'opacity-0'}`}>
+        {verse && (
+          <div key={`${verse.reference}-${slideIndex}`} className="text-reveal w-full max-w-6xl flex flex-col items-center text-center space-y-[4vh]">
+            <div className="flex items-center space-x-4">
+              <div className="h-px w-8 bg-brand/30"></div>
+              <span className="text-brand text-sm font-black tracking-[0.6em] uppercase">
+                {[verse.translation, ...(verse.parallels ?? []).map(p => p.translation)].join(' · ')}
+              </span>
+              <div className="h-px w-8 bg-brand/30"></div>
+            </div>
+            <ParallelVerseBody verse={verse} slide={slide} activeWordIndex={activeWordIndex} layout={parallelLayout} />
+            {verse.secondary && <SecondaryVerse secondary={verse.secondary} slide={slide} fontSize="clamp(1rem, 2.8vw, 2.2rem)" />}
+            <p className="font-bold text-[rgb(var(--output-text-rgb)/0.6)] tracking-[0.5em] uppercase" style={{ fontSize: 'clamp(1rem, 2.2vw, 1.6rem)' }}>
+              {verse.reference}
+            </p>
+          </div>
+        )}
+      </div>
+      <div className={`absolute inset-0 flex items-center justify-center transition-opacity duration-700 pointer-events-none ${
+        output.displayState === DisplayState.LOGO ? 'opacity-100' : 'opacity-0'
+      }`}>
+        <BrandLogo className="w-[28vmin] h-[28vmin]" />
+      </div>
+      {caption && (
+        <div className="absolute inset-x-[6vw] bottom-[4vh] flex justify-center pointer-events-none">
+          <p className="px-[1.2em] py-[0.4em] rounded-lg bg-black/75 text-white font-sans font-semibold text-center leading-snug line-clamp-2" style={{ fontSize: 'clamp(1rem, 2.4vw, 2rem)' }}>
+            {caption}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProjectorView;
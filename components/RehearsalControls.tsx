@@ -0,0 +1,67 @@
+import React, { useRef, useState } from 'react';
+import { SessionRecording, parseRecording } from '../utils/sessionRecording';
+
+interface RehearsalControlsProps {
+  rehearsal: SessionRecording | null;
+  onLoadRehearsal: (recording: SessionRecording | null) => void;
+  isRecording: boolean;
+  onToggleRecording: () => void;
+  // Session controls are disabled while connected; the backend is picked at start
+  disabled: boolean;
+}
+
+const RehearsalControls: React.FC<RehearsalControlsProps> = ({ rehearsal, onLoadRehearsal, isRecording, onToggleRecording, disabled }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      onLoadRehearsal(parseRecording(await file.text()));
+    } catch (err) {
+      console.error('Could not load session recording:', err);
+      setMessage('Not a Recording');
+      setTimeout(() => setMessage(null), 4000);
+    }
+  };
+
+  const buttonClass = 'text-[9px] font-bold uppercase tracking-widest px-3 py-1 rounded-full border transition-colors disabled:opacity-40';
+
+  return (
+    <div className="flex items-center space-x-3">
+      {message && <span className="text-[9px] text-zinc-500 font-bold uppercase tracking-widest">{message}</span>}
+      {rehearsal ? (
+        <button
+          onClick={() => onLoadRehearsal(null)}
+          disabled={disabled}
+          className={`${buttonClass} text-brand border-brand/40 hover:text-white`}
+          title="Replaying a recorded session instead of connecting to Gemini. Click to go live again."
+        >
+          Rehearsal
+        </button>
+      ) : (
+        <button
+          onClick={() => inputRef.current?.click()}
+          disabled={disabled}
+          className={`${buttonClass} text-zinc-600 hover:text-zinc-300 border-zinc-800`}
+          title="Replay a recorded session or script without an API key"
+        >
+          Rehearse
+        </button>
+      )}
+      <button
+        onClick={onToggleRecording}
+        disabled={disabled}
+        className={`${buttonClass} ${isRecording ? 'text-red-500 border-red-900/40' : 'text-zinc-600 hover:text-zinc-300 border-zinc-800'}`}
+        title="Save the mic audio and server messages of the next session for replay"
+      >
+        {isRecording ? '● Rec' : 'Record'}
+      </button>
+      <input ref={inputRef} type="file" accept=".json" className="hidden" onChange={handleFile} />
+    </div>
+  );
+};
+
+export default RehearsalControls;
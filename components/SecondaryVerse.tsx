@@ -0,0 +1,28 @@
+import React from 'react';
+import { SecondaryText, Slide } from '../types';
+import { alignParallelSlide } from '../utils/parallelText';
+import { languageName } from '../utils/bilingual';
+
+interface SecondaryVerseProps {
+  secondary: SecondaryText;
+  slide?: Slide | null;
+  fontSize?: string;
+}
+
+// Second-language line under the primary verse; model renderings are labelled so nobody mistakes them for a published translation
+const SecondaryVerse: React.FC<SecondaryVerseProps> = ({ secondary, slide, fontSize = 'clamp(0.9rem, 2.2vw, 1.6rem)' }) => {
+  const text = alignParallelSlide(secondary, slide).text;
+
+  return (
+    <div className="w-full flex flex-col items-center space-y-2 pt-[2vh] border-t border-brand/10">
+      <span className="text-[8px] font-black tracking-[0.4em] uppercase text-zinc-500">
+        {languageName(secondary.language)} · {secondary.generated
+          ? <span className="text-amber-700/80">AI Rendering</span>
+          : secondary.translation}
+      </span>
+      <p className="font-serif italic leading-snug text-[rgb(var(--output-text-rgb)/0.65)]" style={{ fontSize }}>{text}</p>
+    </div>
+  );
+};
+
+export default SecondaryVerse;
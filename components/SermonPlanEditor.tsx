@@ -0,0 +1,158 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { SermonPlan } from '../types';
+import { createPlan, deletePlan, extractCues, loadPlans, savePlan } from '../utils/sermonPlan';
+import { localDate } from '../utils/serviceHistory';
+
+interface SermonPlanEditorProps {
+  activePlanId?: string;
+  onUsePlan: (plan: SermonPlan) => void;
+  onClose: () => void;
+}
+
+const SermonPlanEditor: React.FC<SermonPlanEditorProps> = ({ activePlanId, onUsePlan, onClose }) => {
+  const [savedPlans, setSavedPlans] = useState<SermonPlan[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [title, setTitle] = useState('');
+  const [serviceDate, setServiceDate] = useState(() => localDate(Date.now()));
+  const [source, setSource] = useState('');
+  const [confirmed, setConfirmed] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadPlans().then(setSavedPlans).catch(err => setError(`Could not load saved plans: ${err?.message || err}`));
+  }, []);
+
+  const cues = useMemo(() => extractCues(source), [source]);
+  const keptCount = cues.filter(cue => !cue.needsConfirmation || confirmed.includes(cue.label)).length;
+
+  const toggleConfirmed = (label: string) =>
+    setConfirmed(prev => prev.includes(label) ? prev.filter(l => l !== label) : [...prev, label]);
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setSource(await file.text());
+    if (!title) setTitle(file.name.replace(/\.[^.]+$/, ''));
+  };
+
+  const handleEdit = (plan: SermonPlan) => {
+    setEditingId(plan.id);
+    setTitle(plan.title);
+    setServiceDate(plan.serviceDate);
+    setSource(plan.source);
+    setConfirmed(plan.cues.map(cue => cue.label));
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deletePlan(id);
+      setSavedPlans(plans => plans.filter(p => p.id !== id));
+      if (editingId === id) setEditingId(null);
+    } catch (err: any) {
+      setError(`Could not delete plan: ${err?.message || err}`);
+    }
+  };
+
+  const handleSave = async () => {
+    const plan = { ...createPlan(title, serviceDate, source, confirmed), ...(editingId ? { id: editingId } : {}) };
+    try {
+      await savePlan(plan);
+      onUsePlan(plan);
+      onClose();
+    } catch (err: any) {
+      setError(`Could not save plan: ${err?.message || err}`);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-6" onClick={onClose}>
+      <div className="w-full max-w-4xl max-h-full flex flex-col rounded-[2rem] border border-zinc-800 bg-[#0a0a0c] overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="px-8 pt-7 pb-4 flex items-center justify-between">
+          <h2 className="text-[10px] font-black tracking-[0.4em] uppercase text-zinc-400">Sermon Plan</h2>
+          <button onClick={onClose} className="text-[9px] font-bold uppercase tracking-widest text-zinc-600 hover:text-zinc-300">Close</button>
+        </div>
+
+        <div className="flex-1 min-h-0 grid grid-cols-1 md:grid-cols-[1fr_16rem] gap-6 px-8 pb-6 overflow-y-auto">
+          <div className="flex flex-col space-y-3 min-h-0">
+            <div className="flex space-x-3">
+              <input
+                value={title}
+                onChange={e => setTitle(e.target.value)}
+                placeholder="Sermon title"
+                className="flex-1 px-4 py-2 rounded-xl bg-black border border-zinc-800 text-sm text-zinc-200 placeholder-zinc-700 outline-none focus:border-brand/50"
+              />
+              <input
+                type="date"
+                value={serviceDate}
+                onChange={e => setServiceDate(e.target.value)}
+                className="px-4 py-2 rounded-xl bg-black border border-zinc-800 text-sm text-zinc-400 outline-none focus:border-brand/50"
+              />
+            </div>
+            <textarea
+              value={source}
+              onChange={e => setSource(e.target.value)}
+              placeholder="Paste the sermon outline (plain text or Markdown)..."
+              className="flex-1 min-h-[16rem] px-4 py-3 rounded-xl bg-black border border-zinc-800 text-xs font-mono text-zinc-300 placeholder-zinc-700 outline-none resize-none focus:border-brand/50"
+            />
+            <label className="self-start text-[9px] font-bold uppercase tracking-widest text-zinc-600 hover:text-zinc-300 cursor-pointer">
+              Upload Outline (.txt, .md)
+              <input type="file" accept=".txt,.md,.markdown" className="hidden" onChange={handleFile} />
+            </label>
+          </div>
+
+          <div className="flex flex-col space-y-5 min-h-0">
+            <div>
+              <p className="text-[8px] font-black uppercase tracking-[0.3em] text-zinc-500 mb-2">Cues Found ({keptCount})</p>
+              <ol className="space-y-1 max-h-56 overflow-y-auto scrollbar-hide">
+                {cues.map((cue, i) => (
+                  <li key={cue.id} className="flex items-center text-[10px] text-zinc-300 font-bold tracking-wider" title={cue.context}>
+                    <span className="text-zinc-700 mr-2">{i + 1}</span>
+                    {cue.needsConfirmation ? (
+                      <label className="flex items-center space-x-2 cursor-pointer" title={`No verse number; check to keep. "${cue.context}"`}>
+                        <input type="checkbox" checked={confirmed.includes(cue.label)} onChange={() => toggleConfirmed(cue.label)} className="accent-brand" />
+                        <span className={confirmed.includes(cue.label) ? '' : 'text-zinc-600 line-through'}>{cue.label}</span>
+                      </label>
+                    ) : cue.label}
+                  </li>
+                ))}
+              </ol>
+              {cues.some(cue => cue.needsConfirmation) && (
+                <p className="mt-2 text-[8px] text-zinc-600">References without a verse number are only kept when checked.</p>
+              )}
+            </div>
+
+            {savedPlans.length > 0 && (
+              <div>
+                <p className="text-[8px] font-black uppercase tracking-[0.3em] text-zinc-500 mb-2">Saved Plans</p>
+                <ul className="space-y-1 max-h-48 overflow-y-auto scrollbar-hide">
+                  {savedPlans.map(plan => (
+                    <li key={plan.id} className="flex items-center justify-between text-[10px]">
+                      <button onClick={() => handleEdit(plan)} className={`text-left truncate hover:text-zinc-200 ${plan.id === activePlanId ? 'text-brand' : 'text-zinc-400'}`}>
+                        <span className="text-zinc-600 mr-2">{plan.serviceDate}</span>{plan.title}
+                      </button>
+                      <button onClick={() => handleDelete(plan.id)} className="ml-2 text-zinc-700 hover:text-red-800 uppercase text-[8px] font-bold">Delete</button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="px-8 py-5 border-t border-zinc-900 flex items-center justify-between">
+          <span className="text-[9px] text-red-900 font-bold">{error}</span>
+          <button
+            onClick={handleSave}
+            disabled={!keptCount}
+            className="px-6 py-2.5 bg-brand disabled:bg-zinc-800 disabled:text-zinc-600 rounded-xl text-white text-[9px] font-black uppercase tracking-[0.3em] active:scale-95 transition-all"
+          >
+            Save & Use
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SermonPlanEditor;
@@ -0,0 +1,224 @@
+import React, { useEffect, useState } from 'react';
+import {
+  AppSettings,
+  DEFAULT_SETTINGS,
+  PREBUILT_VOICES,
+  PROMPT_PLACEHOLDERS,
+  PROMPT_SECTION_LABELS,
+  PromptSections,
+  exportProfile,
+  parseProfile,
+  validateSettings,
+} from '../utils/settings';
+import { GovernorSettings } from '../utils/updateGovernor';
+import { VoiceGateSettings } from '../utils/voiceActivity';
+
+interface SettingsPanelProps {
+  settings: AppSettings;
+  onSave: (settings: AppSettings) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full px-3 py-2 rounded-xl bg-black border border-zinc-800 text-xs text-zinc-200 placeholder-zinc-700 outline-none focus:border-brand/50';
+const labelClass = 'block text-[8px] font-black uppercase tracking-[0.3em] text-zinc-500 mb-1.5';
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onSave, onClose }) => {
+  const [draft, setDraft] = useState<AppSettings>(settings);
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [importError, setImportError] = useState<string | null>(null);
+  const errors = validateSettings(draft);
+
+  useEffect(() => {
+    // Labels stay blank until the page has had microphone permission once
+    navigator.mediaDevices?.enumerateDevices()
+      .then(all => setDevices(all.filter(d => d.kind === 'audioinput')))
+      .catch(err => console.warn('Could not list microphones:', err));
+  }, []);
+
+  const update = <K extends keyof AppSettings>(key: K, value: AppSettings[K]) => setDraft(prev => ({ ...prev, [key]: value }));
+  const updateGovernor = <K extends keyof GovernorSettings>(key: K, value: GovernorSettings[K]) =>
+    setDraft(prev => ({ ...prev, governor: { ...prev.governor, [key]: value } }));
+  const updateVoiceGate = <K extends keyof VoiceGateSettings>(key: K, value: VoiceGateSettings[K]) =>
+    setDraft(prev => ({ ...prev, voiceGate: { ...prev.voiceGate, [key]: value } }));
+  const updatePrompt = (section: keyof PromptSections, value: string) =>
+    setDraft(prev => ({ ...prev, prompt: { ...prev.prompt, [section]: value } }));
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      // Keep this machine's microphone; profiles never carry one
+      setDraft({ ...parseProfile(await file.text()), inputDeviceId: draft.inputDeviceId });
+      setImportError(null);
+    } catch (err: any) {
+      setImportError(err?.message || 'Import failed');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-6" onClick={onClose}>
+      <div className="w-full max-w-4xl max-h-full flex flex-col rounded-[2rem] border border-zinc-800 bg-[#0a0a0c] overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="px-8 pt-7 pb-4 flex items-center justify-between">
+          <h2 className="text-[10px] font-black tracking-[0.4em] uppercase text-zinc-400">Settings</h2>
+          <div className="flex items-center space-x-4">
+            <label className="text-[9px] font-bold uppercase tracking-widest text-zinc-600 hover:text-zinc-300 cursor-pointer">
+              Import Profile
+              <input type="file" accept=".json" className="hidden" onChange={handleImport} />
+            </label>
+            <button onClick={() => exportProfile(draft)} className="text-[9px] font-bold uppercase tracking-widest text-zinc-600 hover:text-zinc-300">Export Profile</button>
+            <button onClick={onClose} className="text-[9px] font-bold uppercase tracking-widest text-zinc-600 hover:text-zinc-300">Close</button>
+          </div>
+        </div>
+
+        <div className="flex-1 min-h-0 overflow-y-auto scrollbar-hide px-8 pb-6 space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className={labelClass}>Live Model</label>
+              <input value={draft.liveModel} onChange={e => update('liveModel', e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Recite Model</label>
+              <input value={draft.ttsModel} onChange={e => update('ttsModel', e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Voice</label>
+              <select value={draft.voice} onChange={e => update('voice', e.target.value)} className={inputClass}>
+                {!PREBUILT_VOICES.includes(draft.voice) && <option value={draft.voice}>{draft.voice}</option>}
+                {PREBUILT_VOICES.map(voice => <option key={voice} value={voice}>{voice}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Default Translation</label>
+              <input value={draft.defaultTranslation} onChange={e => update('defaultTranslation', e.target.value.toUpperCase())} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Microphone</label>
+              <select value={draft.inputDeviceId ?? ''} onChange={e => update('inputDeviceId', e.target.value || null)} className={inputClass}>
+                <option value="">System Default</option>
+                {devices.filter(d => d.deviceId && d.deviceId !== 'default').map((device, i) => (
+                  <option key={device.deviceId} value={device.deviceId}>{device.label || `Microphone ${i + 1}`}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Wake Phrase</label>
+              <input value={draft.wakePhrase} onChange={e => update('wakePhrase', e.target.value)} className={inputClass} />
+            </div>
+          </div>
+
+          <label className="flex items-center space-x-3 cursor-pointer">
+            <input type="checkbox" checked={draft.autoAdvance} onChange={e => update('autoAdvance', e.target.checked)} className="accent-brand" />
+            <span className="text-[9px] font-bold uppercase tracking-widest text-zinc-400">Auto-advance to the next verse while it is read</span>
+          </label>
+
+          <div>
+            <p className="text-[8px] font-black uppercase tracking-[0.3em] text-zinc-500 mb-3">Update Pacing · applies to verses the model puts up in Auto mode</p>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+              <div>
+                <label className={labelClass}>Coalesce Window (s)</label>
+                <input
+                  type="number"
+                  step={0.1}
+                  min={0}
+                  value={draft.governor.coalesceMs / 1000}
+                  onChange={e => updateGovernor('coalesceMs', Math.round(Number(e.target.value) * 1000))}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Minimum On-Screen (s)</label>
+                <input
+                  type="number"
+                  step={0.5}
+                  min={0}
+                  value={draft.governor.minOnScreenMs / 1000}
+                  onChange={e => updateGovernor('minOnScreenMs', Math.round(Number(e.target.value) * 1000))}
+                  className={inputClass}
+                />
+              </div>
+              <label className="flex items-center space-x-3 cursor-pointer py-2">
+                <input type="checkbox" checked={draft.governor.ignoreDuplicates} onChange={e => updateGovernor('ignoreDuplicates', e.target.checked)} className="accent-brand" />
+                <span className="text-[9px] font-bold uppercase tracking-widest text-zinc-400">Ignore repeats of the current verse</span>
+              </label>
+            </div>
+          </div>
+
+          <div>
+            <p className="text-[8px] font-black uppercase tracking-[0.3em] text-zinc-500 mb-3">Voice Gate · only stream the mic while someone is speaking</p>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+              <label className="flex items-center space-x-3 cursor-pointer py-2">
+                <input type="checkbox" checked={draft.voiceGate.enabled} onChange={e => updateVoiceGate('enabled', e.target.checked)} className="accent-brand" />
+                <span className="text-[9px] font-bold uppercase tracking-widest text-zinc-400">Skip silence</span>
+              </label>
+              <div className={draft.voiceGate.enabled ? '' : 'opacity-40'}>
+                <label className={labelClass}>Threshold (level)</label>
+                <input
+                  type="number"
+                  step={0.005}
+                  min={0}
+                  value={draft.voiceGate.threshold}
+                  onChange={e => updateVoiceGate('threshold', Number(e.target.value))}
+                  className={inputClass}
+                />
+              </div>
+              <div className={draft.voiceGate.enabled ? '' : 'opacity-40'}>
+                <label className={labelClass}>Hangover (s)</label>
+                <input
+                  type="number"
+                  step={0.1}
+                  min={0}
+                  value={draft.voiceGate.hangoverMs / 1000}
+                  onChange={e => updateVoiceGate('hangoverMs', Math.round(Number(e.target.value) * 1000))}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            <p className="text-[8px] font-black uppercase tracking-[0.3em] text-zinc-500">
+              System Prompt · placeholders: {PROMPT_PLACEHOLDERS.map(p => `{${p}}`).join(' ')}
+            </p>
+            {(Object.keys(PROMPT_SECTION_LABELS) as (keyof PromptSections)[]).map(section => (
+              <div key={section} className={section === 'autoAdvance' && !draft.autoAdvance ? 'opacity-40' : ''}>
+                <label className={labelClass}>{PROMPT_SECTION_LABELS[section]}</label>
+                <textarea
+                  value={draft.prompt[section]}
+                  onChange={e => updatePrompt(section, e.target.value)}
+                  rows={Math.min(8, draft.prompt[section].split('\n').length + 1)}
+                  className={`${inputClass} font-mono resize-y`}
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="px-8 py-5 border-t border-zinc-900 flex items-center justify-between space-x-4">
+          <div className="text-[9px] text-red-900 font-bold space-y-0.5">
+            {importError && <p>{importError}</p>}
+            {errors.map(error => <p key={error}>{error}</p>)}
+            {!importError && !errors.length && <p className="text-zinc-700">Model, voice and prompt changes apply from the next connection.</p>}
+          </div>
+          <div className="flex items-center space-x-3 flex-shrink-0">
+            <button
+              onClick={() => setDraft({ ...DEFAULT_SETTINGS, inputDeviceId: draft.inputDeviceId })}
+              className="text-[9px] font-bold uppercase tracking-widest text-zinc-600 hover:text-zinc-300"
+            >
+              Reset to Defaults
+            </button>
+            <button
+              onClick={() => onSave(draft)}
+              disabled={errors.length > 0}
+              className="px-6 py-2.5 bg-brand disabled:bg-zinc-800 disabled:text-zinc-600 rounded-xl text-white text-[9px] font-black uppercase tracking-[0.3em] active:scale-95 transition-all"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
@@ -0,0 +1,243 @@
+import React, { useEffect, useState } from 'react';
+import VerseBody from './VerseBody';
+import { VerificationStatus, VerseData } from '../types';
+import {
+  BUILT_IN_THEMES,
+  CUSTOM_THEME_ID,
+  Theme,
+  ThemeAssetKind,
+  ThemeLabels,
+  ensureFontsLoaded,
+  getActiveTheme,
+  loadThemeAsset,
+  loadThemeSettings,
+  outputCssVars,
+  saveThemeAsset,
+  saveThemeSettings,
+  themeToCssVars,
+} from '../utils/theme';
+
+interface ThemePanelProps {
+  onClose: () => void;
+}
+
+const inputClass = 'w-full px-3 py-2 rounded-xl bg-black border border-zinc-800 text-xs text-zinc-200 placeholder-zinc-700 outline-none focus:border-brand/50';
+const labelClass = 'block text-[8px] font-black uppercase tracking-[0.3em] text-zinc-500 mb-1.5';
+
+const LABEL_FIELDS: { key: keyof ThemeLabels; label: string }[] = [
+  { key: 'appTitle', label: 'Console Title' },
+  { key: 'liveLabel', label: 'Live Badge' },
+  { key: 'organization', label: 'Organization' },
+];
+
+const SAMPLE_VERSE: VerseData = {
+  reference: 'Psalm 119:105',
+  text: 'Thy word is a lamp unto my feet, and a light unto my path.',
+  translation: 'KJV',
+  verification: VerificationStatus.VERIFIED,
+};
+
+// undefined = unchanged, null = removed
+type PendingAssets = Partial<Record<ThemeAssetKind, File | null>>;
+
+const ThemePanel: React.FC<ThemePanelProps> = ({ onClose }) => {
+  const [saved] = useState(loadThemeSettings);
+  const [draft, setDraft] = useState<Theme>(() => getActiveTheme(saved));
+  const [pending, setPending] = useState<PendingAssets>({});
+  const [previewUrls, setPreviewUrls] = useState<Partial<Record<ThemeAssetKind, string>>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => { ensureFontsLoaded(draft); }, [draft.sansFont, draft.serifFont]);
+
+  // Show the custom theme's stored files until they are replaced
+  useEffect(() => {
+    if (!saved.custom) return;
+    const urls: string[] = [];
+    (['logo', 'background'] as ThemeAssetKind[]).forEach(kind => {
+      loadThemeAsset(CUSTOM_THEME_ID, kind).then(blob => {
+        if (!blob) return;
+        const url = URL.createObjectURL(blob);
+        urls.push(url);
+        setPreviewUrls(prev => ({ ...prev, [kind]: prev[kind] ?? url }));
+      }).catch(err => console.warn(`Could not load theme ${kind}:`, err));
+    });
+    return () => urls.forEach(url => URL.revokeObjectURL(url));
+  }, [saved.custom]);
+
+  // Built-in themes are read-only, so any edit turns the draft into the custom theme
+  const edit = (changes: Partial<Theme>) =>
+    setDraft(prev => ({ ...prev, ...changes, id: CUSTOM_THEME_ID, name: prev.id === CUSTOM_THEME_ID ? (changes.name ?? prev.name) : 'Custom' }));
+
+  const choosePreset = (theme: Theme) => {
+    setDraft(theme);
+    setPending({});
+  };
+
+  const chooseCustom = () => {
+    if (!saved.custom) return;
+    setDraft(saved.custom);
+    setPending({});
+  };
+
+  const setAsset = (kind: ThemeAssetKind, file: File | null) => {
+    setPending(prev => ({ ...prev, [kind]: file }));
+    setPreviewUrls(prev => ({ ...prev, [kind]: file ? URL.createObjectURL(file) : undefined }));
+    if (kind === 'logo') edit({ hasLogo: !!file });
+    else edit({ background: file ? (file.type.startsWith('video/') ? 'video' : 'image') : 'none' });
+  };
+
+  const handleFile = (kind: ThemeAssetKind) => (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) setAsset(kind, file);
+  };
+
+  const handleSave = async () => {
+    try {
+      if (draft.id === CUSTOM_THEME_ID) {
+        for (const kind of Object.keys(pending) as ThemeAssetKind[]) {
+          await saveThemeAsset(CUSTOM_THEME_ID, kind, pending[kind] ?? null);
+        }
+        saveThemeSettings({ activeId: CUSTOM_THEME_ID, custom: draft });
+      } else {
+        saveThemeSettings({ activeId: draft.id, custom: saved.custom });
+      }
+      onClose();
+    } catch (err: any) {
+      setError(`Could not save theme: ${err?.message || err}`);
+    }
+  };
+
+  const showLogo = draft.id === CUSTOM_THEME_ID && draft.hasLogo && previewUrls.logo;
+  const showBackground = draft.id === CUSTOM_THEME_ID && draft.background !== 'none' && previewUrls.background;
+  const cardClass = (active: boolean) =>
+    `px-4 py-2 rounded-xl border text-[9px] font-black uppercase tracking-widest transition-colors ${
+      active ? 'border-brand text-zinc-200' : 'border-zinc-800 text-zinc-600 hover:text-zinc-300'
+    }`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-6" onClick={onClose}>
+      <div className="w-full max-w-4xl max-h-full flex flex-col rounded-[2rem] border border-zinc-800 bg-[#0a0a0c] overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="px-8 pt-7 pb-4 flex items-center justify-between">
+          <h2 className="text-[10px] font-black tracking-[0.4em] uppercase text-zinc-400">Theme</h2>
+          <button onClick={onClose} className="text-[9px] font-bold uppercase tracking-widest text-zinc-600 hover:text-zinc-300">Close</button>
+        </div>
+
+        <div className="flex-1 min-h-0 overflow-y-auto scrollbar-hide px-8 pb-6 space-y-6">
+          <div className="flex flex-wrap gap-2">
+            {BUILT_IN_THEMES.map(theme => (
+              <button key={theme.id} onClick={() => choosePreset(theme)} className={cardClass(draft.id === theme.id)}>
+                <span className="inline-block w-2 h-2 rounded-full mr-2" style={{ backgroundColor: theme.brandColor }} />
+                {theme.name}
+              </button>
+            ))}
+            {saved.custom && (
+              <button onClick={chooseCustom} className={cardClass(draft.id === CUSTOM_THEME_ID)}>
+                <span className="inline-block w-2 h-2 rounded-full mr-2" style={{ backgroundColor: saved.custom.brandColor }} />
+                {saved.custom.name}
+              </button>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-[1fr_20rem] gap-6">
+            <div className="space-y-4">
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <label className={labelClass}>Name</label>
+                  <input value={draft.name} onChange={e => edit({ name: e.target.value })} className={inputClass} />
+                </div>
+                <div>
+                  <label className={labelClass}>Output</label>
+                  <select value={draft.mode} onChange={e => edit({ mode: e.target.value as Theme['mode'] })} className={inputClass}>
+                    <option value="dark">Dark</option>
+                    <option value="light">Light</option>
+                  </select>
+                </div>
+                <div>
+                  <label className={labelClass}>Brand Color</label>
+                  <input type="color" value={draft.brandColor} onChange={e => edit({ brandColor: e.target.value })} className="w-full h-[34px] rounded-xl bg-black border border-zinc-800 cursor-pointer" />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className={labelClass}>Sans Font</label>
+                  <input value={draft.sansFont} onChange={e => edit({ sansFont: e.target.value })} placeholder="Google Font name" className={inputClass} />
+                </div>
+                <div>
+                  <label className={labelClass}>Serif Font</label>
+                  <input value={draft.serifFont} onChange={e => edit({ serifFont: e.target.value })} placeholder="Google Font name" className={inputClass} />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-3 gap-4">
+                {LABEL_FIELDS.map(({ key, label }) => (
+                  <div key={key}>
+                    <label className={labelClass}>{label}</label>
+                    <input value={draft.labels[key]} onChange={e => edit({ labels: { ...draft.labels, [key]: e.target.value } })} className={inputClass} />
+                  </div>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                {(['logo', 'background'] as ThemeAssetKind[]).map(kind => {
+                  const hasAsset = kind === 'logo' ? draft.hasLogo : draft.background !== 'none';
+                  return (
+                    <div key={kind}>
+                      <label className={labelClass}>{kind === 'logo' ? 'Logo' : 'Background'}</label>
+                      <div className="flex items-center space-x-4">
+                        <label className="text-[9px] font-bold uppercase tracking-widest text-zinc-600 hover:text-zinc-300 cursor-pointer">
+                          {hasAsset && draft.id === CUSTOM_THEME_ID ? 'Replace' : 'Upload'}
+                          <input type="file" accept={kind === 'logo' ? 'image/*' : 'image/*,video/*'} className="hidden" onChange={handleFile(kind)} />
+                        </label>
+                        {hasAsset && draft.id === CUSTOM_THEME_ID && (
+                          <button onClick={() => setAsset(kind, null)} className="text-[9px] font-bold uppercase tracking-widest text-zinc-700 hover:text-red-800">Remove</button>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+
+            <div
+              className="space-y-3"
+              style={{ ...themeToCssVars(draft), ...outputCssVars(draft) } as React.CSSProperties}
+            >
+              <p className={labelClass}>Preview</p>
+              <div className="relative aspect-video rounded-xl border border-zinc-800 bg-[rgb(var(--output-bg-rgb))] overflow-hidden flex flex-col items-center justify-center px-4 text-center font-sans">
+                {showBackground && (draft.background === 'video'
+                  ? <video src={previewUrls.background} autoPlay muted loop playsInline className="absolute inset-0 w-full h-full object-cover" />
+                  : <img src={previewUrls.background} alt="" className="absolute inset-0 w-full h-full object-cover" />)}
+                {showBackground && <div className="absolute inset-0 bg-[rgb(var(--output-bg-rgb)/0.55)]" />}
+                <div className="relative">
+                  <VerseBody verse={SAMPLE_VERSE} activeWordIndex={4} fontSize="0.95rem" />
+                  <p className="mt-2 text-[7px] font-bold tracking-[0.4em] uppercase text-[rgb(var(--output-text-rgb)/0.6)]">{SAMPLE_VERSE.reference}</p>
+                </div>
+                <span className="absolute top-2 left-2 text-[6px] font-black uppercase tracking-[0.3em] text-brand">{draft.labels.liveLabel}</span>
+                {showLogo && <img src={previewUrls.logo} alt="" className="absolute bottom-2 right-2 h-5 object-contain" />}
+              </div>
+              <div className="flex items-center justify-between px-1">
+                <span className="text-[9px] font-black uppercase tracking-[0.3em] text-zinc-400">{draft.labels.appTitle}</span>
+                <span className="px-3 py-1 rounded-full bg-brand text-white text-[8px] font-black uppercase tracking-widest">Go Live</span>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="px-8 py-5 border-t border-zinc-900 flex items-center justify-between">
+          <span className="text-[9px] text-red-900 font-bold">{error}</span>
+          <button
+            onClick={handleSave}
+            disabled={!draft.name.trim()}
+            className="px-6 py-2.5 bg-brand disabled:bg-zinc-800 disabled:text-zinc-600 rounded-xl text-white text-[9px] font-black uppercase tracking-[0.3em] active:scale-95 transition-all"
+          >
+            Save Theme
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ThemePanel;
@@ -0,0 +1,80 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import {
+  DEFAULT_THEME,
+  THEME_CHANGE_EVENT,
+  THEME_KEY,
+  Theme,
+  ThemeAssetKind,
+  applyTheme,
+  getActiveTheme,
+  loadThemeAsset,
+  loadThemeSettings,
+} from '../utils/theme';
+
+interface ThemeContextValue {
+  theme: Theme;
+  logoUrl: string | null;
+  // Object URL plus its media type, for the audience background
+  background: { url: string; type: 'image' | 'video' } | null;
+}
+
+const ThemeContext = createContext<ThemeContextValue>({ theme: DEFAULT_THEME, logoUrl: null, background: null });
+
+export const useTheme = () => useContext(ThemeContext);
+
+// Applies the saved theme and follows changes from this and other windows (e.g. the projector)
+const ThemeProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [theme, setTheme] = useState<Theme>(() => getActiveTheme(loadThemeSettings()));
+  const [logoUrl, setLogoUrl] = useState<string | null>(null);
+  const [background, setBackground] = useState<ThemeContextValue['background']>(null);
+
+  useEffect(() => {
+    const reload = () => setTheme(getActiveTheme(loadThemeSettings()));
+    // Other settings are saved to localStorage all the time; only a theme change needs a reload
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === THEME_KEY) reload();
+    };
+    window.addEventListener(THEME_CHANGE_EVENT, reload);
+    window.addEventListener('storage', handleStorage);
+    return () => {
+      window.removeEventListener(THEME_CHANGE_EVENT, reload);
+      window.removeEventListener('storage', handleStorage);
+    };
+  }, []);
+
+  useEffect(() => { applyTheme(theme); }, [theme]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const urls: string[] = [];
+    const load = async (kind: ThemeAssetKind) => {
+      try {
+        const blob = await loadThemeAsset(theme.id, kind);
+        if (!blob || cancelled) return null;
+        const url = URL.createObjectURL(blob);
+        urls.push(url);
+        return url;
+      } catch (e) {
+        console.warn(`Could not load theme ${kind}:`, e);
+        return null;
+      }
+    };
+
+    (async () => {
+      const logo = theme.hasLogo ? await load('logo') : null;
+      const backgroundUrl = theme.background !== 'none' ? await load('background') : null;
+      if (cancelled) return;
+      setLogoUrl(logo);
+      setBackground(backgroundUrl && theme.background !== 'none' ? { url: backgroundUrl, type: theme.background } : null);
+    })();
+
+    return () => {
+      cancelled = true;
+      urls.forEach(url => URL.revokeObjectURL(url));
+    };
+  }, [theme]);
+
+  return <ThemeContext.Provider value={{ theme, logoUrl, background }}>{children}</ThemeContext.Provider>;
+};
+
+export default ThemeProvider;
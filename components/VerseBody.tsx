@@ -0,0 +1,69 @@
+import React from 'react';
+import { Slide, VerseData } from '../types';
+
+interface VerseBodyProps {
+  verse: VerseData;
+  slide?: Slide | null;
+  activeWordIndex?: number;
+  // Overrides the viewport-based sizing, e.g. for thumbnails
+  fontSize?: string;
+}
+
+// Aggressive scaling for a "perfect fit"
+export const getDynamicFontSize = (text: string) => getFontSizeForLength(text.length);
+
+export const getFontSizeForLength = (len: number) => {
+  if (len < 50) return 'clamp(2rem, 7vw, 4.5rem)';
+  if (len < 120) return 'clamp(1.5rem, 5.5vw, 3.5rem)';
+  if (len < 250) return 'clamp(1.2rem, 4.5vw, 2.5rem)';
+  if (len < 500) return 'clamp(1rem, 3.8vw, 2.1rem)';
+  return 'clamp(0.9rem, 3.2vw, 1.7rem)';
+};
+
+const VerseBody: React.FC<VerseBodyProps> = ({ verse, slide, activeWordIndex = -1, fontSize }) => {
+  const slideText = slide?.text ?? verse.text;
+  const showVerseNumbers = (verse.verses?.length ?? 0) > 1;
+
+  // Word indices run across the whole slide so Recite highlighting lines up
+  let wordOffset = 0;
+  const slideParts = (slide?.parts ?? [{ text: slideText, continued: false }]).map(part => {
+    const words = part.text.split(/\s+/).filter(Boolean);
+    const offset = wordOffset;
+    wordOffset += words.length;
+    return { ...part, words, offset };
+  });
+
+  return (
+    <div 
+      className="font-serif italic leading-[1.25] tracking-tight transition-all duration-700 text-[rgb(var(--output-text-rgb))]"
+      style={{ fontSize: fontSize ?? getDynamicFontSize(slideText) }}
+    >
+      <span className="text-brand/40 mr-1 text-[1.1em]">"</span>
+      {slideParts.map((part, p) => (
+        <React.Fragment key={p}>
+          {showVerseNumbers && part.number !== undefined && !part.continued && (
+            <sup className="not-italic font-sans font-black text-brand/70 text-[0.45em] mx-[0.2em] align-super">{part.number}</sup>
+          )}
+          {part.words.map((word, w) => {
+            const i = part.offset + w;
+            return (
+              <span 
+                key={i} 
+                className={`transition-all duration-300 inline-block mx-[0.1em] ${
+                  activeWordIndex === i 
+                    ? 'text-[rgb(var(--output-active-rgb))] scale-105 drop-shadow-[0_0_12px_rgb(var(--brand-rgb)/0.8)]' 
+                    : activeWordIndex > i ? 'text-[rgb(var(--output-text-rgb)/0.35)]' : 'text-[rgb(var(--output-text-rgb)/0.9)]'
+                }`}
+              >
+                {word}
+              </span>
+            );
+          })}
+        </React.Fragment>
+      ))}
+      <span className="text-brand/40 ml-0.5 text-[1.1em]">"</span>
+    </div>
+  );
+};
+
+export default VerseBody;
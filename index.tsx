@@ -2,15 +2,28 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import ProjectorView from './components/ProjectorView';
+import LowerThirdView from './components/LowerThirdView';
+import ThemeProvider from './components/ThemeProvider';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// Audience output windows are opened by the operator console with ?output=projector;
+// ?output=lowerthird is the transparent livestream overlay
+const output = new URLSearchParams(window.location.search).get('output');
+
+const renderView = () => {
+  if (output === 'projector') return <ProjectorView />;
+  if (output === 'lowerthird') return <LowerThirdView />;
+  return <App />;
+};
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    <ThemeProvider>{renderView()}</ThemeProvider>
   </React.StrictMode>
 );
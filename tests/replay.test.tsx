@@ -0,0 +1,62 @@
+import React from 'react';
+import { File } from 'buffer';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { describe, expect, it, vi } from 'vitest';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import App from '../App';
+import ThemeProvider from '../components/ThemeProvider';
+import type { MockBackend } from '../utils/mockBackend';
+import { activeServiceId, loadHistory } from '../utils/serviceHistory';
+
+// The replay drives the app with no microphone
+vi.mock('../utils/audioCapture', () => ({
+  startAudioCapture: async () => ({ stop: () => {} }),
+}));
+
+// Keeps hold of the rehearsal backend so the test can read what the app sent back
+const backends = vi.hoisted(() => [] as MockBackend[]);
+vi.mock('../utils/mockBackend', async importOriginal => {
+  const actual = await importOriginal<typeof import('../utils/mockBackend')>();
+  return {
+    ...actual,
+    createMockBackend: (...args: Parameters<typeof actual.createMockBackend>) => {
+      const backend = actual.createMockBackend(...args);
+      backends.push(backend);
+      return backend;
+    },
+  };
+});
+
+const loadFixture = (name: string) => readFileSync(path.join(__dirname, 'fixtures', name), 'utf8');
+
+describe('recorded session replay', () => {
+  it('answers the tool call and projects the verified verse', async () => {
+    const { container } = render(<ThemeProvider><App /></ThemeProvider>);
+    await screen.findByText('Rehearse');
+
+    // jsdom's File cannot be read as text, so the recording is handed over as a Node File
+    const input = container.querySelector('input[accept=".json"]')!;
+    fireEvent.change(input, { target: { files: [new File([loadFixture('john-3-16.json')], 'john-3-16.json')] } });
+    await screen.findByText('Rehearsal');
+
+    fireEvent.keyDown(document.body, { key: 's' });
+
+    await waitFor(() => expect(backends[0]?.sentToolResponses).toHaveLength(1));
+    expect(backends[0].sentToolResponses[0]).toEqual({
+      functionResponses: { id: 'call-1', name: 'updateVerseDisplay', response: { result: 'pending_display', verification: 'CORRECTED' } },
+    });
+
+    // The model paraphrased the verse; the screen shows the KJV text from the bundled store instead.
+    // Verse words are separate spans, so the text is compared without spacing
+    const screenText = () => container.textContent!.replace(/\s+/g, '');
+    await waitFor(() => expect(screenText()).toContain('thatwhosoeverbelievethinhimshouldnotperish'));
+    expect(screenText()).not.toContain('hisoneandonlySon');
+    expect(screen.getAllByText('John 3:16').length).toBeGreaterThan(0);
+    expect(screen.getByText('Corrected')).toBeTruthy();
+
+    // A rehearsal never becomes part of the service log
+    expect(await loadHistory()).toHaveLength(0);
+    expect(activeServiceId()).toBeNull();
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { findReferences, formatReference, parseReference } from '../utils/scriptureParser';
+
+const parsed = (input: string) => {
+  const reference = parseReference(input);
+  return reference && formatReference(reference);
+};
+
+describe('parseReference', () => {
+  it.each([
+    ['first Corinthians thirteen four through seven', '1 Corinthians 13:4-7'],
+    ['Jn 3 16', 'John 3:16'],
+    ['Psalm twenty-three', 'Psalm 23'],
+    ['Romans 8:28-30', 'Romans 8:28-30'],
+    ['Rom. 8:28', 'Romans 8:28'],
+    ['1 Cor. 13:4-7', '1 Corinthians 13:4-7'],
+    ['Ps. 23', 'Psalm 23'],
+    ['Psalm one hundred and nineteen verse one oh five', 'Psalm 119:105'],
+    ['Jude 3', 'Jude 1:3'],
+    ['Amos 5:24', 'Amos 5:24'],
+    ['Am. 3', 'Amos 3'],
+    ['Am 3:7', 'Amos 3:7'],
+  ])('reads "%s" as %s', (input, expected) => {
+    expect(parsed(input)).toBe(expected);
+  });
+
+  it('keeps a normalized structure', () => {
+    expect(parseReference('first Corinthians thirteen four through seven')).toEqual({
+      bookId: '1CO', chapter: 13, verseStart: 4, verseEnd: 7,
+    });
+  });
+
+  it('rejects chapters the book does not have', () => {
+    expect(parseReference('Jude 2:1')).toBeNull();
+    expect(parseReference('Romans 17')).toBeNull();
+  });
+});
+
+describe('findReferences', () => {
+  it.each([
+    'I am 3 years into this',
+    'I am one of them',
+    'and so I am two steps behind',
+  ])('finds no scripture in "%s"', input => {
+    expect(findReferences(input)).toEqual([]);
+  });
+
+  it('finds each reference with its position', () => {
+    const text = 'Turn to Rom. 8:28, then John three sixteen.';
+    expect(findReferences(text).map(m => [formatReference(m.reference), text.slice(m.start, m.end)])).toEqual([
+      ['Romans 8:28', 'Rom. 8:28'],
+      ['John 3:16', 'John three sixteen'],
+    ]);
+  });
+});
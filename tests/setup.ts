@@ -0,0 +1,34 @@
+import 'fake-indexeddb/auto';
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { afterEach, vi } from 'vitest';
+import { cleanup } from '@testing-library/react';
+
+// Bundled Bibles are served from public/, as the dev server would
+vi.stubGlobal('fetch', async (url: string) => {
+  try {
+    const body = await readFile(path.join(__dirname, '../public', url));
+    return new Response(body, { headers: { 'Content-Type': 'application/json' } });
+  } catch {
+    return new Response('Not found', { status: 404 });
+  }
+});
+
+// Just enough Web Audio and media capture for a session to start without sound
+class SilentAudioContext {
+  currentTime = 0;
+  state = 'running';
+  resume = async () => {};
+  close = async () => {};
+}
+vi.stubGlobal('AudioContext', SilentAudioContext);
+Object.defineProperty(navigator, 'mediaDevices', {
+  configurable: true,
+  value: { getUserMedia: async () => ({ getTracks: () => [] }), enumerateDevices: async () => [] },
+});
+
+// jsdom does no layout, so scrolling has nothing to do
+Element.prototype.scrollTo = () => {};
+Element.prototype.scrollIntoView = () => {};
+
+afterEach(() => cleanup());
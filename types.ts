@@ -1,13 +1,226 @@
+export interface ScriptureReference {
+  bookId: string;
+  chapter: number;
+  verseStart?: number;
+  verseEnd?: number;
+}
+
+export interface PassageVerse {
+  // Omitted when the model returned a passage as one unnumbered block
+  number?: number;
+  text: string;
+}
 
 export interface VerseData {
   reference: string;
   text: string;
   translation: string;
+  location?: ScriptureReference;
+  verification?: VerificationStatus;
+  verses?: PassageVerse[];
+  source?: VerseSource;
+  // Other translations of the same reference, shown alongside the primary text
+  parallels?: ParallelText[];
+  // Second-language rendering shown underneath in bilingual services
+  secondary?: SecondaryText;
+  // How sure the model was of the reference (0-1), and what else the speaker may have meant
+  confidence?: number;
+  alternatives?: ScriptureReference[];
+}
+
+export interface SecondaryText {
+  // BCP 47 code, e.g. "es"
+  language: string;
+  // Set when the text came from a local translation
+  translation?: string;
+  text: string;
+  verses?: PassageVerse[];
+  // True for a model rendering, which the display labels as such
+  generated: boolean;
+}
+
+export interface ParallelText {
+  translation: string;
+  text: string;
+  verification: VerificationStatus;
+  verses?: PassageVerse[];
+}
+
+export enum ParallelLayout {
+  COLUMNS = 'COLUMNS',
+  STACKED = 'STACKED'
+}
+
+export enum VerseSource {
+  AI = 'AI',
+  MANUAL = 'MANUAL',
+  CUE = 'CUE',
+  // Advanced by the console after following the reading in the transcript
+  FOLLOW = 'FOLLOW'
+}
+
+export interface HistoryEntry {
+  id: string;
+  // Local date (YYYY-MM-DD) the service took place
+  serviceDate: string;
+  // Separates services held on the same day; missing on entries logged before it was added
+  serviceId?: string;
+  reference: string;
+  translation: string;
+  source: VerseSource;
+  // True when Manual Lock kept the verse off the screen
+  blocked: boolean;
+  shownAt: number;
+  durationMs?: number;
+  secondaryLanguage?: string;
+  // Local translation used for the second language, or "AI" for a model rendering
+  secondarySource?: string;
+}
+
+// One caption line of the sermon transcript, kept with the service it belongs to
+export interface CaptionSegment {
+  id: string;
+  serviceDate: string;
+  serviceId?: string;
+  startedAt: number;
+  endedAt: number;
+  text: string;
+}
+
+// Instrumentation for one Live session, saved with the service it ran in
+export interface SessionMetrics {
+  id: string;
+  serviceDate: string;
+  serviceId?: string;
+  model: string;
+  startedAt: number;
+  endedAt: number;
+  reconnects: number;
+  audioBytesSent: number;
+  audioBytesReceived: number;
+  // Counts by tool name, then by the result reported to the model
+  toolCalls: Record<string, Record<string, number>>;
+  // From hearing a reference to its verse going live
+  latenciesMs: number[];
+  // Summed from the usage the server reports, when it does
+  inputTokens: number;
+  outputTokens: number;
+}
+
+// Audit record for every voice command tool call, honored or not
+export interface VoiceCommandEntry {
+  id: string;
+  at: number;
+  serviceId?: string;
+  name: string;
+  args: Record<string, unknown>;
+  // What the model reports the speaker said
+  utterance: string;
+  honored: boolean;
+  reason?: string;
+}
+
+export interface SlidePart extends PassageVerse {
+  // True when this part carries on a verse that began on an earlier slide
+  continued: boolean;
+  // Which piece of the verse this is, when it was split across slides
+  piece?: { index: number; count: number };
+}
+
+export interface Slide {
+  parts: SlidePart[];
+  text: string;
+}
+
+export enum VerificationStatus {
+  // Model text matches the local store
+  VERIFIED = 'VERIFIED',
+  // Model text differed and was replaced with the local text
+  CORRECTED = 'CORRECTED',
+  // No local text for this translation or reference
+  UNVERIFIED = 'UNVERIFIED'
+}
+
+export interface SermonCue {
+  id: string;
+  reference: ScriptureReference;
+  label: string;
+  // Outline line the reference was found on
+  context: string;
+  // Chapter-only matches ("my first job 2 years") may be prose; the operator confirms them
+  needsConfirmation?: boolean;
+}
+
+export interface SermonPlan {
+  id: string;
+  title: string;
+  serviceDate: string;
+  source: string;
+  cues: SermonCue[];
+  updatedAt: number;
+}
+
+// How AI-detected verses reach the audience output
+export enum UpdateMode {
+  AUTO = 'AUTO',
+  // Verses wait in the pending queue until the operator pushes them live
+  APPROVE = 'APPROVE',
+  LOCKED = 'LOCKED'
+}
+
+export interface PendingVerse {
+  id: string;
+  verse: VerseData;
+  receivedAt: number;
+  // Held back automatically because the model was unsure of the reference
+  lowConfidence?: boolean;
+}
+
+// What the audience output windows render, published by the operator console
+export interface OutputState {
+  verse: VerseData | null;
+  slide: Slide | null;
+  slideIndex: number;
+  slideCount: number;
+  activeWordIndex: number;
+  displayState: DisplayState;
+  parallelLayout: ParallelLayout;
+  // Latest caption line, only set when captions are shown to the audience
+  caption: string | null;
+}
+
+// What the audience sees; the operator console always keeps the current verse visible
+export enum DisplayState {
+  VERSE = 'VERSE',
+  BLANK = 'BLANK',
+  LOGO = 'LOGO',
+  // The verse has been taken down; the next verse to go live brings the display back
+  CLEAR = 'CLEAR'
 }
 
 export enum SessionStatus {
   IDLE = 'IDLE',
   CONNECTING = 'CONNECTING',
   LISTENING = 'LISTENING',
+  RECONNECTING = 'RECONNECTING',
   ERROR = 'ERROR'
 }
+
+// Operator commands that can be bound to keys or presentation clickers
+export enum OperatorAction {
+  TOGGLE_SESSION = 'TOGGLE_SESSION',
+  TOGGLE_LOCK = 'TOGGLE_LOCK',
+  NEXT = 'NEXT',
+  PREV = 'PREV',
+  GO_LIVE = 'GO_LIVE',
+  DISCARD = 'DISCARD',
+  BLANK = 'BLANK',
+  LOGO = 'LOGO',
+  CLEAR = 'CLEAR',
+  RECITE = 'RECITE',
+  STOP_RECITE = 'STOP_RECITE',
+  TOGGLE_MUSIC = 'TOGGLE_MUSIC'
+}
+
+// Key names as produced by keyFromEvent in utils/keymap.ts
+export type Keymap = Record<OperatorAction, string[]>;
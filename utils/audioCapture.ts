@@ -0,0 +1,116 @@
+export interface AudioCaptureOptions {
+  targetSampleRate: number;
+  // Samples per emitted frame at the target rate
+  frameSize: number;
+  // `level` is the frame's RMS, 0..1
+  onFrame: (pcm: Int16Array, level: number) => void;
+  onLevel?: (level: number) => void;
+}
+
+export interface AudioCapture {
+  context: AudioContext;
+  stop: () => Promise<void>;
+}
+
+const PROCESSOR_NAME = 'pcm-capture';
+
+/**
+ * Runs on the audio rendering thread. Box-filter decimation doubles as a cheap
+ * anti-aliasing filter when downsampling; upsampling (rare) interpolates linearly.
+ * Loaded from a Blob URL so it works both under Vite and the import-map build.
+ */
+const PROCESSOR_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetSampleRate, frameSize } = options.processorOptions;
+    this.ratio = sampleRate / targetSampleRate;
+    this.frameSize = frameSize;
+    this.frame = new Int16Array(frameSize);
+    this.filled = 0;
+    this.phase = 0;
+    this.acc = 0;
+    this.accCount = 0;
+    this.previous = 0;
+    this.sumSquares = 0;
+  }
+
+  emit(value) {
+    const sample = Math.max(-1, Math.min(1, value));
+    this.sumSquares += sample * sample;
+    this.frame[this.filled++] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+    if (this.filled === this.frameSize) {
+      const level = Math.sqrt(this.sumSquares / this.frameSize);
+      this.port.postMessage({ pcm: this.frame.buffer, level }, [this.frame.buffer]);
+      this.frame = new Int16Array(this.frameSize);
+      this.filled = 0;
+      this.sumSquares = 0;
+    }
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) return true;
+    for (let i = 0; i < channel.length; i++) {
+      const current = channel[i];
+      if (this.ratio >= 1) {
+        this.acc += current;
+        this.accCount++;
+        this.phase += 1;
+        if (this.phase >= this.ratio) {
+          this.emit(this.acc / this.accCount);
+          this.phase -= this.ratio;
+          this.acc = 0;
+          this.accCount = 0;
+        }
+      } else {
+        while (this.phase < 1) {
+          this.emit(this.previous + (current - this.previous) * this.phase);
+          this.phase += this.ratio;
+        }
+        this.phase -= 1;
+      }
+      this.previous = current;
+    }
+    return true;
+  }
+}
+registerProcessor('${PROCESSOR_NAME}', PcmCaptureProcessor);
+`;
+
+/** Streams 16-bit PCM frames from `stream` at the target rate, whatever rate the device runs at. */
+export async function startAudioCapture(stream: MediaStream, options: AudioCaptureOptions): Promise<AudioCapture> {
+  const context = new (window.AudioContext || (window as any).webkitAudioContext)();
+  const moduleUrl = URL.createObjectURL(new Blob([PROCESSOR_SOURCE], { type: 'application/javascript' }));
+  try {
+    await context.audioWorklet.addModule(moduleUrl);
+  } finally {
+    URL.revokeObjectURL(moduleUrl);
+  }
+  await context.resume();
+
+  const source = context.createMediaStreamSource(stream);
+  const node = new AudioWorkletNode(context, PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    channelCount: 1,
+    processorOptions: { targetSampleRate: options.targetSampleRate, frameSize: options.frameSize },
+  });
+  node.port.onmessage = (event: MessageEvent<{ pcm: ArrayBuffer; level: number }>) => {
+    options.onLevel?.(event.data.level);
+    options.onFrame(new Int16Array(event.data.pcm), event.data.level);
+  };
+  source.connect(node);
+  // Outputs are silent; the connection only keeps the node in the rendering graph
+  node.connect(context.destination);
+
+  return {
+    context,
+    stop: async () => {
+      node.port.onmessage = null;
+      source.disconnect();
+      node.disconnect();
+      await context.close().catch(() => {});
+    },
+  };
+}
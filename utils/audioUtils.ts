@@ -1,11 +1,16 @@
 
+// Bytes per String.fromCharCode call; larger spreads can overflow the call stack
+const ENCODE_CHUNK = 0x8000;
+
 export function encode(bytes: Uint8Array): string {
-  let binary = '';
-  const len = bytes.byteLength;
-  for (let i = 0; i < len; i++) {
-    binary += String.fromCharCode(bytes[i]);
+  // Native in recent browsers
+  const native = (bytes as Uint8Array & { toBase64?: () => string }).toBase64;
+  if (native) return native.call(bytes);
+  const chunks: string[] = [];
+  for (let i = 0; i < bytes.length; i += ENCODE_CHUNK) {
+    chunks.push(String.fromCharCode.apply(null, bytes.subarray(i, i + ENCODE_CHUNK) as unknown as number[]));
   }
-  return btoa(binary);
+  return btoa(chunks.join(''));
 }
 
 export function decode(base64: string): Uint8Array {
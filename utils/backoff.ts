@@ -0,0 +1,15 @@
+export interface BackoffOptions {
+  baseMs: number;
+  maxMs: number;
+  // Fraction of the delay randomised so several clients don't retry in lockstep
+  jitter: number;
+}
+
+const DEFAULT_BACKOFF: BackoffOptions = { baseMs: 1000, maxMs: 30000, jitter: 0.2 };
+
+/** Delay before retry number `attempt` (0-based): base * 2^attempt, capped and jittered. */
+export function getBackoffDelay(attempt: number, options: BackoffOptions = DEFAULT_BACKOFF): number {
+  const delay = Math.min(options.maxMs, options.baseMs * 2 ** attempt);
+  const spread = delay * options.jitter;
+  return Math.round(delay - spread + Math.random() * spread * 2);
+}
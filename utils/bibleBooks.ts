@@ -0,0 +1,104 @@
+export interface BibleBook {
+  id: string;
+  name: string;
+  chapters: number;
+  // Singular form used in citations (Psalm 23:1)
+  citationName?: string;
+  // Ordinal prefix for numbered books (1 Samuel, 2 Kings, 3 John)
+  ordinal?: number;
+  // Lowercase spoken/written forms without the ordinal prefix
+  aliases: string[];
+}
+
+export const BIBLE_BOOKS: BibleBook[] = [
+  { id: 'GEN', name: 'Genesis', chapters: 50, aliases: ['genesis', 'gen', 'gn'] },
+  { id: 'EXO', name: 'Exodus', chapters: 40, aliases: ['exodus', 'exod', 'exo', 'ex'] },
+  { id: 'LEV', name: 'Leviticus', chapters: 27, aliases: ['leviticus', 'lev', 'lv'] },
+  { id: 'NUM', name: 'Numbers', chapters: 36, aliases: ['numbers', 'num', 'nm'] },
+  { id: 'DEU', name: 'Deuteronomy', chapters: 34, aliases: ['deuteronomy', 'deut', 'deu', 'dt'] },
+  { id: 'JOS', name: 'Joshua', chapters: 24, aliases: ['joshua', 'josh', 'jos'] },
+  { id: 'JDG', name: 'Judges', chapters: 21, aliases: ['judges', 'judg', 'jdg', 'jgs'] },
+  { id: 'RUT', name: 'Ruth', chapters: 4, aliases: ['ruth', 'rth', 'ru'] },
+  { id: '1SA', name: '1 Samuel', chapters: 31, ordinal: 1, aliases: ['samuel', 'sam', 'sa', 'sm'] },
+  { id: '2SA', name: '2 Samuel', chapters: 24, ordinal: 2, aliases: ['samuel', 'sam', 'sa', 'sm'] },
+  { id: '1KI', name: '1 Kings', chapters: 22, ordinal: 1, aliases: ['kings', 'kgs', 'ki'] },
+  { id: '2KI', name: '2 Kings', chapters: 25, ordinal: 2, aliases: ['kings', 'kgs', 'ki'] },
+  { id: '1CH', name: '1 Chronicles', chapters: 29, ordinal: 1, aliases: ['chronicles', 'chron', 'chr', 'ch'] },
+  { id: '2CH', name: '2 Chronicles', chapters: 36, ordinal: 2, aliases: ['chronicles', 'chron', 'chr', 'ch'] },
+  { id: 'EZR', name: 'Ezra', chapters: 10, aliases: ['ezra', 'ezr'] },
+  { id: 'NEH', name: 'Nehemiah', chapters: 13, aliases: ['nehemiah', 'neh', 'ne'] },
+  { id: 'EST', name: 'Esther', chapters: 10, aliases: ['esther', 'esth', 'est'] },
+  { id: 'JOB', name: 'Job', chapters: 42, aliases: ['job', 'jb'] },
+  { id: 'PSA', name: 'Psalms', citationName: 'Psalm', chapters: 150, aliases: ['psalms', 'psalm', 'pslm', 'psa', 'pss', 'ps'] },
+  { id: 'PRO', name: 'Proverbs', chapters: 31, aliases: ['proverbs', 'proverb', 'prov', 'pro', 'prv', 'pr'] },
+  { id: 'ECC', name: 'Ecclesiastes', chapters: 12, aliases: ['ecclesiastes', 'eccles', 'eccl', 'ecc', 'qoh'] },
+  { id: 'SNG', name: 'Song of Solomon', chapters: 8, aliases: ['song of solomon', 'song of songs', 'song of sol', 'songs', 'song', 'sos', 'sng', 'canticles'] },
+  { id: 'ISA', name: 'Isaiah', chapters: 66, aliases: ['isaiah', 'isa'] },
+  { id: 'JER', name: 'Jeremiah', chapters: 52, aliases: ['jeremiah', 'jer', 'jr'] },
+  { id: 'LAM', name: 'Lamentations', chapters: 5, aliases: ['lamentations', 'lam'] },
+  { id: 'EZK', name: 'Ezekiel', chapters: 48, aliases: ['ezekiel', 'ezek', 'ezk', 'eze'] },
+  { id: 'DAN', name: 'Daniel', chapters: 12, aliases: ['daniel', 'dan', 'dn'] },
+  { id: 'HOS', name: 'Hosea', chapters: 14, aliases: ['hosea', 'hos'] },
+  { id: 'JOL', name: 'Joel', chapters: 3, aliases: ['joel', 'jl'] },
+  { id: 'AMO', name: 'Amos', chapters: 9, aliases: ['amos', 'am'] },
+  { id: 'OBA', name: 'Obadiah', chapters: 1, aliases: ['obadiah', 'obad', 'oba'] },
+  { id: 'JON', name: 'Jonah', chapters: 4, aliases: ['jonah', 'jon', 'jnh'] },
+  { id: 'MIC', name: 'Micah', chapters: 7, aliases: ['micah', 'mic'] },
+  { id: 'NAM', name: 'Nahum', chapters: 3, aliases: ['nahum', 'nah'] },
+  { id: 'HAB', name: 'Habakkuk', chapters: 3, aliases: ['habakkuk', 'hab', 'hb'] },
+  { id: 'ZEP', name: 'Zephaniah', chapters: 3, aliases: ['zephaniah', 'zeph', 'zep', 'zp'] },
+  { id: 'HAG', name: 'Haggai', chapters: 2, aliases: ['haggai', 'hag', 'hg'] },
+  { id: 'ZEC', name: 'Zechariah', chapters: 14, aliases: ['zechariah', 'zech', 'zec', 'zc'] },
+  { id: 'MAL', name: 'Malachi', chapters: 4, aliases: ['malachi', 'mal', 'ml'] },
+  { id: 'MAT', name: 'Matthew', chapters: 28, aliases: ['matthew', 'matt', 'mat', 'mt'] },
+  { id: 'MRK', name: 'Mark', chapters: 16, aliases: ['mark', 'mrk', 'mk', 'mr'] },
+  { id: 'LUK', name: 'Luke', chapters: 24, aliases: ['luke', 'luk', 'lk'] },
+  { id: 'JHN', name: 'John', chapters: 21, aliases: ['john', 'jhn', 'jn'] },
+  { id: 'ACT', name: 'Acts', chapters: 28, aliases: ['acts of the apostles', 'acts', 'act'] },
+  { id: 'ROM', name: 'Romans', chapters: 16, aliases: ['romans', 'roman', 'rom', 'rm', 'ro'] },
+  { id: '1CO', name: '1 Corinthians', chapters: 16, ordinal: 1, aliases: ['corinthians', 'cor', 'co'] },
+  { id: '2CO', name: '2 Corinthians', chapters: 13, ordinal: 2, aliases: ['corinthians', 'cor', 'co'] },
+  { id: 'GAL', name: 'Galatians', chapters: 6, aliases: ['galatians', 'gal', 'ga'] },
+  { id: 'EPH', name: 'Ephesians', chapters: 6, aliases: ['ephesians', 'eph', 'ephes'] },
+  { id: 'PHP', name: 'Philippians', chapters: 4, aliases: ['philippians', 'phil', 'php'] },
+  { id: 'COL', name: 'Colossians', chapters: 4, aliases: ['colossians', 'col'] },
+  { id: '1TH', name: '1 Thessalonians', chapters: 5, ordinal: 1, aliases: ['thessalonians', 'thess', 'thes', 'th'] },
+  { id: '2TH', name: '2 Thessalonians', chapters: 3, ordinal: 2, aliases: ['thessalonians', 'thess', 'thes', 'th'] },
+  { id: '1TI', name: '1 Timothy', chapters: 6, ordinal: 1, aliases: ['timothy', 'tim', 'ti', 'tm'] },
+  { id: '2TI', name: '2 Timothy', chapters: 4, ordinal: 2, aliases: ['timothy', 'tim', 'ti', 'tm'] },
+  { id: 'TIT', name: 'Titus', chapters: 3, aliases: ['titus', 'tit'] },
+  { id: 'PHM', name: 'Philemon', chapters: 1, aliases: ['philemon', 'philem', 'phm'] },
+  { id: 'HEB', name: 'Hebrews', chapters: 13, aliases: ['hebrews', 'heb'] },
+  { id: 'JAS', name: 'James', chapters: 5, aliases: ['james', 'jas', 'jm'] },
+  { id: '1PE', name: '1 Peter', chapters: 5, ordinal: 1, aliases: ['peter', 'pet', 'pe', 'pt'] },
+  { id: '2PE', name: '2 Peter', chapters: 3, ordinal: 2, aliases: ['peter', 'pet', 'pe', 'pt'] },
+  { id: '1JN', name: '1 John', chapters: 5, ordinal: 1, aliases: ['john', 'jhn', 'jn', 'jo'] },
+  { id: '2JN', name: '2 John', chapters: 1, ordinal: 2, aliases: ['john', 'jhn', 'jn', 'jo'] },
+  { id: '3JN', name: '3 John', chapters: 1, ordinal: 3, aliases: ['john', 'jhn', 'jn', 'jo'] },
+  { id: 'JUD', name: 'Jude', chapters: 1, aliases: ['jude', 'jud', 'jd'] },
+  { id: 'REV', name: 'Revelation', chapters: 22, aliases: ['revelation', 'revelations', 'rev', 'rv'] },
+];
+
+const BOOKS_BY_ID = new Map(BIBLE_BOOKS.map(book => [book.id, book]));
+
+// Keyed as "<ordinal> <alias>" for numbered books and "<alias>" otherwise
+const BOOKS_BY_ALIAS = new Map<string, BibleBook>();
+for (const book of BIBLE_BOOKS) {
+  for (const alias of book.aliases) {
+    BOOKS_BY_ALIAS.set(book.ordinal ? `${book.ordinal} ${alias}` : alias, book);
+  }
+}
+
+export const MAX_ALIAS_WORDS = Math.max(...Array.from(BOOKS_BY_ALIAS.keys(), key => key.split(' ').length));
+
+export function getBook(id: string): BibleBook | undefined {
+  return BOOKS_BY_ID.get(id);
+}
+
+export function findBookByAlias(alias: string): BibleBook | undefined {
+  return BOOKS_BY_ALIAS.get(alias);
+}
+
+export function getBookIndex(id: string): number {
+  return BIBLE_BOOKS.findIndex(book => book.id === id);
+}
@@ -0,0 +1,198 @@
+import { ScriptureReference } from '../types';
+import { getBook } from './bibleBooks';
+import { parseReference } from './scriptureParser';
+import { STORES, idbGet, idbPut } from './indexedDb';
+
+/**
+ * Import format for local translations. `books` maps a book id (see bibleBooks.ts)
+ * to its chapters, each an array of verse texts where index 0 is verse 1.
+ */
+export interface BibleTranslation {
+  id: string;
+  name: string;
+  language: string;
+  books: Record<string, string[][]>;
+}
+
+export interface StoredVerse {
+  number: number;
+  text: string;
+}
+
+// Public-domain translations served from public/bibles/<id>.json
+export const BUNDLED_TRANSLATIONS = ['KJV', 'WEB'];
+
+const TRANSLATION_ALIASES: Record<string, string> = {
+  'KING JAMES': 'KJV',
+  'KING JAMES VERSION': 'KJV',
+  'AUTHORIZED VERSION': 'KJV',
+  'WORLD ENGLISH BIBLE': 'WEB',
+};
+
+const INDEX_KEY = 'inspired-ai:translations';
+
+export type TranslationInfo = Pick<BibleTranslation, 'id' | 'name' | 'language'>;
+
+const BUNDLED_INFO: TranslationInfo[] = [
+  { id: 'KJV', name: 'King James Version', language: 'en' },
+  { id: 'WEB', name: 'World English Bible', language: 'en' },
+];
+
+const translations = new Map<string, BibleTranslation>();
+const pending = new Map<string, Promise<BibleTranslation | null>>();
+// Bundled files that failed to load, with the reason shown to the operator
+const bundleErrors = new Map<string, string>();
+
+export function normalizeTranslationId(translation: string): string {
+  const upper = translation.trim().toUpperCase();
+  return TRANSLATION_ALIASES[upper] ?? upper;
+}
+
+const isValidTranslation = (data: any): data is BibleTranslation =>
+  !!data
+  && typeof data.id === 'string'
+  && typeof data.name === 'string'
+  && typeof data.books === 'object'
+  && Object.entries(data.books).every(([bookId, chapters]) =>
+    !!getBook(bookId) && Array.isArray(chapters) && (chapters as unknown[]).every(Array.isArray));
+
+const fetchBundled = async (id: string): Promise<BibleTranslation | null> => {
+  if (!BUNDLED_TRANSLATIONS.includes(id)) return null;
+  const path = `/bibles/${id.toLowerCase()}.json`;
+  try {
+    const res = await fetch(path);
+    if (!res.ok) throw new Error(`${path} returned ${res.status}`);
+    // The dev server answers missing files with index.html, which fails to parse
+    const data = await res.json().catch(() => { throw new Error(`${path} is missing or not JSON`); });
+    if (!isValidTranslation(data)) throw new Error(`${path} is not a valid translation`);
+    bundleErrors.delete(id);
+    return data;
+  } catch (e: any) {
+    console.error(`Could not load bundled ${id}:`, e);
+    bundleErrors.set(id, `Bundled ${id} text could not be loaded (${e?.message || e}); its verses will show as unverified.`);
+    return null;
+  }
+};
+
+const loadTranslation = async (id: string): Promise<BibleTranslation | null> => {
+  try {
+    const imported = await idbGet<BibleTranslation>(STORES.translations, id);
+    if (imported) return imported;
+  } catch (e) {
+    console.warn('Local translation storage unavailable:', e);
+  }
+  return fetchBundled(id);
+};
+
+/** Resolves a translation from memory, imported storage or the bundled files, or null if none has it. */
+export function ensureTranslation(translation: string): Promise<BibleTranslation | null> {
+  const id = normalizeTranslationId(translation);
+  const loaded = translations.get(id);
+  if (loaded) return Promise.resolve(loaded);
+
+  let request = pending.get(id);
+  if (!request) {
+    request = loadTranslation(id).then(data => {
+      if (data) translations.set(id, data);
+      pending.delete(id);
+      return data;
+    });
+    pending.set(id, request);
+  }
+  return request;
+}
+
+/** Why a bundled translation is unavailable, or null if it loaded or was never requested. */
+export function getTranslationError(translation: string): string | null {
+  return bundleErrors.get(normalizeTranslationId(translation)) ?? null;
+}
+
+export function lookupVerses(translation: string, reference: ScriptureReference): StoredVerse[] | null {
+  const chapter = translations.get(normalizeTranslationId(translation))?.books[reference.bookId]?.[reference.chapter - 1];
+  if (!chapter) return null;
+
+  const start = reference.verseStart ?? 1;
+  const end = reference.verseEnd ?? (reference.verseStart ?? chapter.length);
+  if (start > chapter.length) return null;
+
+  const verses: StoredVerse[] = [];
+  for (let number = start; number <= Math.min(end, chapter.length); number++) {
+    // Line-format imports may leave gaps for verses the source omits
+    if (chapter[number - 1]) verses.push({ number, text: chapter[number - 1] });
+  }
+  return verses.length ? verses : null;
+}
+
+/** Chapter length from any loaded translation, used to step across chapter boundaries. */
+export function getVerseCount(bookId: string, chapter: number): number | undefined {
+  for (const translation of translations.values()) {
+    const verses = translation.books[bookId]?.[chapter - 1];
+    if (verses) return verses.length;
+  }
+  return undefined;
+}
+
+// Plain text exports with one verse per line: "Genesis 1:1 In the beginning..."
+const parseLineFormat = (source: string): Record<string, string[][]> => {
+  const books: Record<string, string[][]> = {};
+  source.split(/\r?\n/).forEach(line => {
+    const match = line.match(/^\s*(.+?\s\d+[:.]\d+)\s+(.+)$/);
+    const reference = match && parseReference(match[1]);
+    if (!reference || reference.verseStart === undefined) return;
+    const chapters = books[reference.bookId] ??= [];
+    const verses = chapters[reference.chapter - 1] ??= [];
+    verses[reference.verseStart - 1] = match![2].trim();
+  });
+  return books;
+};
+
+/**
+ * Imports a translation the church holds a license for, either as JSON in the
+ * BibleTranslation format or as one "Book C:V text" line per verse.
+ */
+export async function importTranslation(
+  source: string,
+  fallback: { id: string; name?: string; language?: string },
+): Promise<BibleTranslation> {
+  let data: BibleTranslation;
+  try {
+    data = JSON.parse(source);
+  } catch (e) {
+    const books = parseLineFormat(source);
+    if (!Object.keys(books).length) throw new Error('No verses found in import file');
+    data = { id: fallback.id, name: fallback.name ?? fallback.id, language: fallback.language ?? 'en', books };
+  }
+  if (!isValidTranslation(data)) throw new Error('Import file is not a valid translation');
+
+  const translation = { ...data, id: normalizeTranslationId(data.id), language: data.language ?? 'en' };
+  await idbPut(STORES.translations, translation.id, translation);
+  translations.set(translation.id, translation);
+  saveTranslationInfo({ id: translation.id, name: translation.name, language: translation.language });
+  return translation;
+}
+
+// Metadata of imported translations, kept apart so listing them never loads whole Bibles
+const loadImportedInfo = (): TranslationInfo[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(INDEX_KEY) || '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+const saveTranslationInfo = (info: TranslationInfo) => {
+  const others = loadImportedInfo().filter(t => t.id !== info.id);
+  localStorage.setItem(INDEX_KEY, JSON.stringify([...others, info]));
+};
+
+export function listTranslations(): TranslationInfo[] {
+  const imported = loadImportedInfo();
+  // A bundle that failed to load is not offered again until the page reloads
+  return [...imported, ...BUNDLED_INFO.filter(b => !imported.some(t => t.id === b.id) && !bundleErrors.has(b.id))];
+}
+
+export function findTranslationsForLanguage(language: string): TranslationInfo[] {
+  const code = language.toLowerCase().split('-')[0];
+  return listTranslations().filter(t => t.language.toLowerCase().split('-')[0] === code);
+}
@@ -0,0 +1,44 @@
+import { ScriptureReference, SecondaryText } from '../types';
+import { findTranslationsForLanguage } from './bibleStore';
+import { localDate } from './serviceHistory';
+import { resolveLocalVerse } from './verseVerification';
+
+const BILINGUAL_KEY = 'inspired-ai:bilingual';
+
+export const SECONDARY_LANGUAGES = [
+  { code: 'es', name: 'Español' },
+  { code: 'fr', name: 'Français' },
+  { code: 'pt', name: 'Português' },
+];
+
+export const languageName = (code: string) =>
+  SECONDARY_LANGUAGES.find(l => l.code === code)?.name ?? code.toUpperCase();
+
+// The choice only holds for the service it was made in; next week starts monolingual
+export function loadSecondaryLanguage(): string | null {
+  try {
+    const saved = JSON.parse(localStorage.getItem(BILINGUAL_KEY) || 'null');
+    return saved?.serviceDate === localDate(Date.now()) ? saved.language ?? null : null;
+  } catch (e) {
+    return null;
+  }
+}
+
+export function saveSecondaryLanguage(language: string | null): void {
+  localStorage.setItem(BILINGUAL_KEY, JSON.stringify({ serviceDate: localDate(Date.now()), language }));
+}
+
+/** Local text in the language wins; otherwise the model's rendering is used and marked as generated. */
+export async function resolveSecondary(
+  reference: ScriptureReference | null,
+  language: string,
+  modelText?: string,
+): Promise<SecondaryText | null> {
+  if (reference) {
+    for (const translation of findTranslationsForLanguage(language)) {
+      const local = await resolveLocalVerse(reference, translation.id);
+      if (local) return { language, translation: translation.id, text: local.text, verses: local.verses, generated: false };
+    }
+  }
+  return modelText ? { language, text: modelText, generated: true } : null;
+}
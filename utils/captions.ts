@@ -0,0 +1,111 @@
+import { CaptionSegment } from '../types';
+import { STORES, idbGetAll, idbPut } from './indexedDb';
+import { ServiceSummary, currentServiceId, downloadFile, inService, localDate, serviceFileName, serviceLabel } from './serviceHistory';
+
+const CAPTION_SETTINGS_KEY = 'inspired-ai:captions';
+// A pause this long starts a new caption line
+const CAPTION_GAP_MS = 1500;
+// Lines are closed at the next sentence end past this length, or forced past the hard limit
+const CAPTION_SOFT_LIMIT = 90;
+const CAPTION_HARD_LIMIT = 160;
+// Characters of the current line shown on the audience output
+const OUTPUT_CAPTION_LENGTH = 110;
+
+export interface CaptionSettings {
+  showPanel: boolean;
+  onOutput: boolean;
+}
+
+export function loadCaptionSettings(): CaptionSettings {
+  try {
+    const saved = JSON.parse(localStorage.getItem(CAPTION_SETTINGS_KEY) || 'null');
+    if (saved) return { showPanel: saved.showPanel !== false, onOutput: saved.onOutput === true };
+  } catch (e) {}
+  return { showPanel: true, onOutput: false };
+}
+
+export function saveCaptionSettings(settings: CaptionSettings): void {
+  localStorage.setItem(CAPTION_SETTINGS_KEY, JSON.stringify(settings));
+}
+
+const persist = (segment: CaptionSegment) =>
+  idbPut(STORES.captions, segment.id, segment).catch(err => console.warn('Could not save caption:', err));
+
+/**
+ * Groups input transcription fragments into caption lines. `onChange` receives the
+ * line being built after every fragment; each line is saved once it closes, unless
+ * `shouldSave` says otherwise (e.g. during a rehearsal).
+ */
+export function createCaptionBuilder(onChange: (segment: CaptionSegment) => void, shouldSave: () => boolean = () => true) {
+  let open: CaptionSegment | null = null;
+
+  const close = () => {
+    if (open && open.text.trim() && shouldSave()) persist({ ...open, text: open.text.trim() });
+    open = null;
+  };
+
+  return {
+    append: (fragment: string, finished = false) => {
+      const now = Date.now();
+      const length = open?.text.trim().length ?? 0;
+      if (open && (now - open.endedAt > CAPTION_GAP_MS || length >= CAPTION_HARD_LIMIT || (length >= CAPTION_SOFT_LIMIT && /[.!?]["'”’]?\s*$/.test(open.text)))) {
+        close();
+      }
+      if (!open) {
+        if (!fragment.trim()) return;
+        open = { id: crypto.randomUUID(), serviceDate: localDate(now), ...(shouldSave() ? { serviceId: currentServiceId(now) } : {}), startedAt: now, endedAt: now, text: '' };
+      }
+      open = { ...open, endedAt: now, text: open.text + fragment };
+      onChange({ ...open, text: open.text.trim() });
+      if (finished) close();
+    },
+    // Saves the line in progress, e.g. when the session stops
+    flush: close,
+  };
+}
+
+export type CaptionBuilder = ReturnType<typeof createCaptionBuilder>;
+
+export async function loadCaptions(service: Pick<ServiceSummary, 'id' | 'serviceDate'>): Promise<CaptionSegment[]> {
+  const segments = await idbGetAll<CaptionSegment>(STORES.captions);
+  return segments.filter(s => inService(s, s.startedAt, service)).sort((a, b) => a.startedAt - b.startedAt);
+}
+
+/** The end of the current line, trimmed to a word boundary, for the audience caption bar. */
+export function outputCaption(text: string): string {
+  if (text.length <= OUTPUT_CAPTION_LENGTH) return text;
+  const tail = text.slice(-OUTPUT_CAPTION_LENGTH);
+  return tail.slice(tail.indexOf(' ') + 1);
+}
+
+const clock = (time: number) => new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+export function toPlainText(segments: CaptionSegment[], title: string): string {
+  return [title, '', ...segments.map(s => `[${clock(s.startedAt)}] ${s.text}`), ''].join('\n');
+}
+
+const vttTime = (ms: number) => {
+  const total = Math.max(0, Math.round(ms));
+  const hours = Math.floor(total / 3600000);
+  const minutes = Math.floor(total / 60000) % 60;
+  const seconds = Math.floor(total / 1000) % 60;
+  const pad = (value: number, width = 2) => String(value).padStart(width, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}.${pad(total % 1000, 3)}`;
+};
+
+// Cue times are relative to the first caption, so the file lines up with a recording started at that point
+export function toWebVTT(segments: CaptionSegment[]): string {
+  const origin = segments[0]?.startedAt ?? 0;
+  const cues = segments.map((s, i) => {
+    // Fragments are timed on arrival, so give each line at least a moment on screen
+    const end = Math.max(s.endedAt, s.startedAt + 1000);
+    return `${i + 1}\n${vttTime(s.startedAt - origin)} --> ${vttTime(end - origin)}\n${s.text.replace(/-->/g, '->')}`;
+  });
+  return ['WEBVTT', '', ...cues.map(cue => `${cue}\n`)].join('\n');
+}
+
+export function downloadTranscript(segments: CaptionSegment[], service: ServiceSummary, format: 'txt' | 'vtt'): void {
+  const name = `${serviceFileName(service)}-transcript`;
+  if (format === 'txt') downloadFile(`${name}.txt`, toPlainText(segments, `Sermon Transcript — ${serviceLabel(service)}`), 'text/plain');
+  else downloadFile(`${name}.vtt`, toWebVTT(segments), 'text/vtt');
+}
@@ -0,0 +1,107 @@
+import { Slide } from '../types';
+
+// How many words past the last match a skipped-over stretch may be
+const LOOKAHEAD = 4;
+// How far back a re-read phrase may move the highlight
+const LOOKBEHIND = 8;
+// Words this long are distinctive enough to jump to without a second matching word
+const DISTINCTIVE_LENGTH = 5;
+// Advance when this many words are left, so the next slide is up as the reader finishes
+const ADVANCE_WORDS_LEFT = 1;
+// Words in a row that must match before a lost reading is picked up somewhere else in the slide
+const RELOCATE_RUN = 3;
+// Words read in order, ending at the last matched word, before the display may advance
+const ADVANCE_RUN = 3;
+
+/** Words of a slide in the order VerseBody numbers them for highlighting. */
+export const slideWords = (slide: Slide | null | undefined, fallbackText = ''): string[] =>
+  (slide?.parts ?? [{ text: slide?.text ?? fallbackText }]).flatMap(part => part.text.split(/\s+/).filter(Boolean));
+
+const normalizeWord = (word: string) => word.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+const editDistance = (a: string, b: string) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Longer words may differ by one letter, which covers spelling variants and transcription slips ("Saviour" / "savior")
+const wordsMatch = (expected: string, heard: string) => {
+  if (!expected || !heard) return false;
+  if (expected === heard) return true;
+  return Math.min(expected.length, heard.length) >= DISTINCTIVE_LENGTH && editDistance(expected, heard) <= 1;
+};
+
+/**
+ * Aligns the live input transcription against the words of one slide. Transcription
+ * arrives in fragments that can split a word, so the trailing partial word is held
+ * until the next fragment completes it.
+ */
+export function createFollowAlong(words: string[]) {
+  const expected = words.map(normalizeWord);
+  let position = -1;
+  let partial = '';
+  // The last few words heard before the current one, most recent last
+  let history: string[] = [];
+  // Consecutive words read in order up to `position`; a phrase quoted out of the middle of the slide starts at zero
+  let run = 0;
+
+  // Whether the words heard before the current one match the `count` words leading up to `index`
+  const precededBy = (index: number, count: number) =>
+    index >= count && history.length >= count
+    && Array.from({ length: count }, (_, k) => wordsMatch(expected[index - 1 - k], history[history.length - 1 - k])).every(Boolean);
+
+  // A jump away from the next word needs the word before it to match too, unless the heard word is distinctive
+  const confirmed = (index: number, heard: string) => heard.length >= DISTINCTIVE_LENGTH || precededBy(index, 1);
+
+  const locate = (heard: string): number => {
+    // Before the reading is found this starts at the first word, so readers starting at the top are picked up at once
+    if (wordsMatch(expected[position + 1], heard)) return position + 1;
+    for (let i = position + 2; i <= Math.min(position + LOOKAHEAD, expected.length - 1); i++) {
+      if (wordsMatch(expected[i], heard) && confirmed(i, heard)) return i;
+    }
+    // Repeated words leave the highlight where it is; a re-read phrase moves it back
+    if (position >= 0 && wordsMatch(expected[position], heard)) return position;
+    for (let i = position - 1; i >= Math.max(0, position - LOOKBEHIND); i--) {
+      if (wordsMatch(expected[i], heard) && confirmed(i, '')) return i;
+    }
+    // Lost or picked up part-way through: ordinary speech shares short phrases with most verses, so this needs a longer run
+    for (let i = RELOCATE_RUN - 1; i < expected.length; i++) {
+      if (wordsMatch(expected[i], heard) && precededBy(i, RELOCATE_RUN - 1)) return i;
+    }
+    return position;
+  };
+
+  const step = (word: string) => {
+    const heard = normalizeWord(word);
+    if (!heard) return;
+    const next = locate(heard);
+    // Reading on (including small skips) extends the run; a jump back or a relocation starts it over
+    if (next > position && next <= position + LOOKAHEAD && !(position < 0 && next > 0)) run++;
+    else if (next !== position) run = 0;
+    position = next;
+    history = [...history, heard].slice(-RELOCATE_RUN);
+  };
+
+  return {
+    /** Feeds one transcription fragment; returns the index of the word being read, or -1 until the reading is found. */
+    hear: (fragment: string): number => {
+      const text = partial + fragment;
+      const tokens = text.split(/\s+/);
+      partial = /\s$/.test(text) ? '' : tokens.pop() ?? '';
+      tokens.filter(Boolean).forEach(step);
+      return position;
+    },
+    /** True once the reader has reached the point where the display should move on. */
+    nearEnd: () => position >= 0 && position >= expected.length - 1 - ADVANCE_WORDS_LEFT
+      && run >= Math.min(ADVANCE_RUN, expected.length - ADVANCE_WORDS_LEFT),
+  };
+}
+
+export type FollowAlong = ReturnType<typeof createFollowAlong>;
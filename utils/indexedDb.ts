@@ -0,0 +1,68 @@
+const DB_NAME = 'inspired-ai';
+const DB_VERSION = 8;
+
+export const STORES = {
+  translations: 'translations',
+  sermonPlans: 'sermonPlans',
+  history: 'history',
+  voiceCommands: 'voiceCommands',
+  themeAssets: 'themeAssets',
+  captions: 'captions',
+  metrics: 'metrics',
+  recordingChunks: 'recordingChunks',
+} as const;
+
+type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        Object.values(STORES).forEach(name => {
+          if (!db.objectStoreNames.contains(name)) db.createObjectStore(name);
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+export async function idbGet<T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> {
+  const db = await openDatabase();
+  return promisify(db.transaction(store).objectStore(store).get(key));
+}
+
+export async function idbGetAll<T>(store: StoreName): Promise<T[]> {
+  const db = await openDatabase();
+  return promisify(db.transaction(store).objectStore(store).getAll());
+}
+
+export async function idbGetAllKeys(store: StoreName): Promise<IDBValidKey[]> {
+  const db = await openDatabase();
+  return promisify(db.transaction(store).objectStore(store).getAllKeys());
+}
+
+export async function idbPut<T>(store: StoreName, key: IDBValidKey, value: T): Promise<void> {
+  const db = await openDatabase();
+  await promisify(db.transaction(store, 'readwrite').objectStore(store).put(value, key));
+}
+
+export async function idbDelete(store: StoreName, key: IDBValidKey): Promise<void> {
+  const db = await openDatabase();
+  await promisify(db.transaction(store, 'readwrite').objectStore(store).delete(key));
+}
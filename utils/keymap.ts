@@ -0,0 +1,92 @@
+import { Keymap, OperatorAction } from '../types';
+
+const KEYMAP_KEY = 'inspired-ai:keymap';
+
+// Presentation clickers send PageUp/PageDown for the arrows and B or period for "blank"
+export const DEFAULT_KEYMAP: Keymap = {
+  [OperatorAction.TOGGLE_SESSION]: ['S'],
+  [OperatorAction.TOGGLE_LOCK]: ['L'],
+  [OperatorAction.NEXT]: ['ArrowRight', 'PageDown', 'Space'],
+  [OperatorAction.PREV]: ['ArrowLeft', 'PageUp'],
+  [OperatorAction.GO_LIVE]: ['Enter'],
+  [OperatorAction.DISCARD]: ['Delete', 'Backspace'],
+  [OperatorAction.BLANK]: ['B', '.'],
+  [OperatorAction.LOGO]: ['O'],
+  [OperatorAction.CLEAR]: ['C'],
+  [OperatorAction.RECITE]: ['R'],
+  [OperatorAction.STOP_RECITE]: ['Escape'],
+  [OperatorAction.TOGGLE_MUSIC]: ['M'],
+};
+
+export const ACTION_LABELS: Record<OperatorAction, string> = {
+  [OperatorAction.TOGGLE_SESSION]: 'Start / Stop Session',
+  [OperatorAction.TOGGLE_LOCK]: 'Lock / Unlock',
+  [OperatorAction.NEXT]: 'Next Verse',
+  [OperatorAction.PREV]: 'Previous Verse',
+  [OperatorAction.GO_LIVE]: 'Push Staged Verse Live',
+  [OperatorAction.DISCARD]: 'Discard Staged Verse',
+  [OperatorAction.BLANK]: 'Blank Screen',
+  [OperatorAction.LOGO]: 'Show Logo',
+  [OperatorAction.CLEAR]: 'Clear Verse',
+  [OperatorAction.RECITE]: 'Recite / Pause Recitation',
+  [OperatorAction.STOP_RECITE]: 'Stop Recitation',
+  [OperatorAction.TOGGLE_MUSIC]: 'Music Mode On / Off',
+};
+
+const MODIFIER_KEYS = new Set(['Control', 'Shift', 'Alt', 'Meta']);
+
+/**
+ * Canonical name for a key press, e.g. "B", "PageDown", "Space" or "Ctrl+Shift+S".
+ * Returns null for bare modifier presses. Shift is only recorded for non-printing keys
+ * since it already changes the character ("?" rather than "Shift+/").
+ */
+export function keyFromEvent(event: KeyboardEvent): string | null {
+  if (MODIFIER_KEYS.has(event.key)) return null;
+  let key = event.key === ' ' ? 'Space' : event.key;
+  if (key.length === 1) key = key.toUpperCase();
+
+  const modifiers: string[] = [];
+  if (event.ctrlKey) modifiers.push('Ctrl');
+  if (event.altKey) modifiers.push('Alt');
+  if (event.metaKey) modifiers.push('Meta');
+  if (event.shiftKey && event.key.length > 1) modifiers.push('Shift');
+  return [...modifiers, key].join('+');
+}
+
+export function findAction(keymap: Keymap, key: string): OperatorAction | null {
+  const entry = Object.entries(keymap).find(([, keys]) => keys.includes(key));
+  return entry ? entry[0] as OperatorAction : null;
+}
+
+// Saved maps from older versions may lack newer actions; those fall back to the defaults
+export function loadKeymap(): Keymap {
+  try {
+    const saved = JSON.parse(localStorage.getItem(KEYMAP_KEY) || 'null');
+    if (!saved || typeof saved !== 'object') return DEFAULT_KEYMAP;
+    const keymap = { ...DEFAULT_KEYMAP };
+    (Object.keys(DEFAULT_KEYMAP) as OperatorAction[]).forEach(action => {
+      if (Array.isArray(saved[action])) keymap[action] = saved[action].filter((k: unknown) => typeof k === 'string');
+    });
+    return keymap;
+  } catch (e) {
+    return DEFAULT_KEYMAP;
+  }
+}
+
+export function saveKeymap(keymap: Keymap): void {
+  localStorage.setItem(KEYMAP_KEY, JSON.stringify(keymap));
+}
+
+/** Binds `key` to `action`, taking it away from any other action that had it. */
+export function assignKey(keymap: Keymap, action: OperatorAction, key: string): Keymap {
+  const next = {} as Keymap;
+  (Object.keys(keymap) as OperatorAction[]).forEach(a => {
+    next[a] = keymap[a].filter(k => k !== key);
+  });
+  next[action] = [...next[action], key];
+  return next;
+}
+
+export function removeKey(keymap: Keymap, action: OperatorAction, key: string): Keymap {
+  return { ...keymap, [action]: keymap[action].filter(k => k !== key) };
+}
@@ -0,0 +1,40 @@
+import {
+  GoogleGenAI,
+  LiveConnectConfig,
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters,
+  LiveServerMessage,
+} from '@google/genai';
+
+export interface LiveCallbacks {
+  onopen: () => void;
+  onmessage: (message: LiveServerMessage) => void;
+  onerror: (e: any) => void;
+  onclose: () => void;
+}
+
+export interface LiveConnectOptions {
+  model: string;
+  config: LiveConnectConfig;
+  callbacks: LiveCallbacks;
+}
+
+/** The subset of a Live session the app talks to; the SDK's Session satisfies it directly. */
+export interface LiveSession {
+  sendRealtimeInput: (params: LiveSendRealtimeInputParameters) => void;
+  sendToolResponse: (params: LiveSendToolResponseParameters) => void;
+  close: () => void;
+}
+
+export interface LiveBackend {
+  // Shown to the operator so a rehearsal is never mistaken for a live service
+  name: string;
+  connect: (options: LiveConnectOptions) => Promise<LiveSession>;
+}
+
+export function createGeminiBackend(apiKey?: string): LiveBackend {
+  return {
+    name: 'Gemini',
+    connect: ({ model, config, callbacks }) => new GoogleGenAI({ apiKey }).live.connect({ model, config, callbacks }),
+  };
+}
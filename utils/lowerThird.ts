@@ -0,0 +1,44 @@
+export type LowerThirdPosition = 'top' | 'bottom';
+export type LowerThirdAlign = 'left' | 'center' | 'right';
+
+/** Lower-third layout, read from the browser source URL so each stream scene can differ. */
+export interface LowerThirdOptions {
+  position: LowerThirdPosition;
+  align: LowerThirdAlign;
+  // Safe-area inset as a percentage of the frame
+  margin: number;
+  maxLines: number;
+}
+
+export const DEFAULT_LOWER_THIRD: LowerThirdOptions = {
+  position: 'bottom',
+  align: 'center',
+  margin: 5,
+  maxLines: 3,
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export function parseLowerThirdOptions(params: URLSearchParams): LowerThirdOptions {
+  const position = params.get('position');
+  const align = params.get('align');
+  const margin = Number(params.get('margin'));
+  const maxLines = Number(params.get('lines'));
+  return {
+    position: position === 'top' ? 'top' : DEFAULT_LOWER_THIRD.position,
+    align: align === 'left' || align === 'right' ? align : DEFAULT_LOWER_THIRD.align,
+    margin: params.has('margin') && Number.isFinite(margin) ? clamp(margin, 0, 20) : DEFAULT_LOWER_THIRD.margin,
+    maxLines: Number.isInteger(maxLines) && maxLines > 0 ? clamp(maxLines, 1, 6) : DEFAULT_LOWER_THIRD.maxLines,
+  };
+}
+
+export function buildLowerThirdUrl(options: LowerThirdOptions = DEFAULT_LOWER_THIRD): string {
+  const params = new URLSearchParams({
+    output: 'lowerthird',
+    position: options.position,
+    align: options.align,
+    margin: String(options.margin),
+    lines: String(options.maxLines),
+  });
+  return `${window.location.origin}${window.location.pathname}?${params}`;
+}
@@ -0,0 +1,60 @@
+import { LiveSendRealtimeInputParameters, LiveSendToolResponseParameters } from '@google/genai';
+import { LiveBackend, LiveSession } from './liveBackend';
+import { SessionRecording } from './sessionRecording';
+
+export interface MockBackend extends LiveBackend {
+  // Everything the app sent, for assertions in automated replays
+  sentInputs: LiveSendRealtimeInputParameters[];
+  sentToolResponses: LiveSendToolResponseParameters[];
+}
+
+/**
+ * Replays the server side of a recording or script on its original timeline, so a
+ * rehearsal or automated test needs no API key or network. Client events in the
+ * recording are ignored; what the app sends is collected instead. A reconnect picks
+ * the script up where the dropped connection left it, like session resumption.
+ */
+export function createMockBackend(recording: SessionRecording): MockBackend {
+  const sentInputs: LiveSendRealtimeInputParameters[] = [];
+  const sentToolResponses: LiveSendToolResponseParameters[] = [];
+  const serverEvents = recording.events
+    .filter(event => event.kind === 'server')
+    .sort((a, b) => a.at - b.at);
+  let cursor = 0;
+
+  return {
+    name: 'Rehearsal',
+    sentInputs,
+    sentToolResponses,
+    connect: async ({ callbacks }) => {
+      const timers: number[] = [];
+      let closed = false;
+
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        timers.forEach(clearTimeout);
+        callbacks.onclose();
+      };
+
+      timers.push(window.setTimeout(() => {
+        callbacks.onopen();
+        const offset = cursor > 0 ? serverEvents[cursor - 1].at : 0;
+        serverEvents.slice(cursor).forEach(event => {
+          timers.push(window.setTimeout(() => {
+            if (event.kind !== 'server') return;
+            cursor++;
+            callbacks.onmessage(event.message);
+          }, event.at - offset));
+        });
+      }, 0));
+
+      const session: LiveSession = {
+        sendRealtimeInput: params => { if (!closed) sentInputs.push(params); },
+        sendToolResponse: params => { if (!closed) sentToolResponses.push(params); },
+        close,
+      };
+      return session;
+    },
+  };
+}
@@ -0,0 +1,124 @@
+import { DisplayState, OutputState, ParallelLayout } from '../types';
+
+const CHANNEL_NAME = 'inspired-ai-output';
+// Output windows check in this often; one silent for three beats is counted as closed
+const HEARTBEAT_MS = 2000;
+const LISTENER_TIMEOUT_MS = HEARTBEAT_MS * 3;
+
+type OutputMessage =
+  | { type: 'state'; state: OutputState }
+  // Sent by a new publisher (e.g. after the console reloads) so open windows announce themselves again
+  | { type: 'ping' }
+  | { type: 'hello'; id: string }
+  | { type: 'heartbeat'; id: string }
+  | { type: 'goodbye'; id: string };
+
+export interface OutputPublisher {
+  publish: (state: OutputState) => void;
+  close: () => void;
+}
+
+export const EMPTY_OUTPUT: OutputState = {
+  verse: null,
+  slide: null,
+  slideIndex: 0,
+  slideCount: 0,
+  activeWordIndex: -1,
+  displayState: DisplayState.VERSE,
+  parallelLayout: ParallelLayout.COLUMNS,
+  caption: null,
+};
+
+/**
+ * Operator side. Re-sends the latest state whenever an output window opens, and
+ * reports how many output windows are currently listening. Windows opened before
+ * this publisher are found with a ping; ones that stop sending heartbeats are dropped.
+ */
+export function createOutputPublisher(onListenersChange?: (count: number) => void): OutputPublisher {
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+  let latest: OutputState = EMPTY_OUTPUT;
+  // Last time each output window was heard from
+  const listeners = new Map<string, number>();
+
+  const setListener = (id: string, seen: boolean) => {
+    const known = listeners.has(id);
+    if (seen) listeners.set(id, Date.now());
+    else listeners.delete(id);
+    if (known !== seen) onListenersChange?.(listeners.size);
+  };
+
+  channel.onmessage = (event: MessageEvent<OutputMessage>) => {
+    const message = event.data;
+    if (message.type === 'hello') {
+      setListener(message.id, true);
+      channel.postMessage({ type: 'state', state: latest } satisfies OutputMessage);
+    } else if (message.type === 'heartbeat') {
+      setListener(message.id, true);
+    } else if (message.type === 'goodbye') {
+      setListener(message.id, false);
+    }
+  };
+
+  const sweep = window.setInterval(() => {
+    const cutoff = Date.now() - LISTENER_TIMEOUT_MS;
+    listeners.forEach((seenAt, id) => { if (seenAt < cutoff) setListener(id, false); });
+  }, HEARTBEAT_MS);
+  channel.postMessage({ type: 'ping' } satisfies OutputMessage);
+
+  return {
+    publish: (state) => {
+      latest = state;
+      channel.postMessage({ type: 'state', state } satisfies OutputMessage);
+    },
+    close: () => {
+      clearInterval(sweep);
+      channel.close();
+    },
+  };
+}
+
+/** Output window side. Returns an unsubscribe function. */
+export function subscribeToOutput(onState: (state: OutputState) => void): () => void {
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+  const id = crypto.randomUUID();
+  const sayHello = () => channel.postMessage({ type: 'hello', id } satisfies OutputMessage);
+  // Best effort; the heartbeat stopping is what reliably marks the window closed
+  const sayGoodbye = () => channel.postMessage({ type: 'goodbye', id } satisfies OutputMessage);
+
+  channel.onmessage = (event: MessageEvent<OutputMessage>) => {
+    if (event.data.type === 'state') onState(event.data.state);
+    else if (event.data.type === 'ping') sayHello();
+  };
+  sayHello();
+  const heartbeat = window.setInterval(() => channel.postMessage({ type: 'heartbeat', id } satisfies OutputMessage), HEARTBEAT_MS);
+  window.addEventListener('beforeunload', sayGoodbye);
+
+  return () => {
+    clearInterval(heartbeat);
+    window.removeEventListener('beforeunload', sayGoodbye);
+    sayGoodbye();
+    channel.close();
+  };
+}
+
+/** Opens the audience output, then moves it to a secondary screen when the browser exposes one. */
+export async function openOutputWindow(output: string): Promise<Window | null> {
+  const url = `${window.location.pathname}?output=${output}`;
+  // Opened before any await, while the click still counts as a user gesture, so the popup is not blocked
+  const popup = window.open(url, `inspired-ai-${output}`, 'popup');
+  if (!popup) return null;
+  try {
+    const getScreenDetails = (window as any).getScreenDetails;
+    if (getScreenDetails) {
+      const details = await getScreenDetails();
+      const external = details.screens.find((screen: any) => !screen.isPrimary);
+      if (external) {
+        popup.moveTo(external.availLeft, external.availTop);
+        popup.resizeTo(external.availWidth, external.availHeight);
+      }
+    }
+  } catch (e) {
+    // Window placement permission denied; leave it on the current screen
+  }
+  return popup;
+}
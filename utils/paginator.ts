@@ -0,0 +1,63 @@
+import { PassageVerse, ScriptureReference, Slide, SlidePart } from '../types';
+
+// Roughly four projector lines at the smaller display sizes
+export const DEFAULT_SLIDE_CHARS = 320;
+
+const slideText = (parts: SlidePart[]) => parts.map(p => p.text).join(' ');
+
+// Splits an over-long verse at sentence breaks, falling back to word breaks
+const splitVerse = (text: string, maxChars: number): string[] => {
+  const chunks: string[] = [];
+  let current = '';
+  const pieces = text.match(/[^.;:!?]+[.;:!?]*\s*/g) ?? [text];
+  const words = pieces.flatMap(piece => piece.length > maxChars ? piece.split(/(?<=\s)/) : [piece]);
+  words.forEach(word => {
+    if (current && (current + word).trim().length > maxChars) {
+      chunks.push(current.trim());
+      current = '';
+    }
+    current += word;
+  });
+  if (current.trim()) chunks.push(current.trim());
+  return chunks;
+};
+
+/** Builds numbered verses for a passage when the local store could not supply them. */
+export function toPassageVerses(
+  reference: ScriptureReference | null,
+  text: string,
+  modelVerses?: PassageVerse[],
+): PassageVerse[] {
+  if (modelVerses?.length) return modelVerses;
+  const isSingleVerse = reference?.verseStart !== undefined && reference.verseEnd === undefined;
+  return [{ number: isSingleVerse ? reference!.verseStart : undefined, text }];
+}
+
+export function paginatePassage(verses: PassageVerse[], maxChars: number = DEFAULT_SLIDE_CHARS): Slide[] {
+  const slides: Slide[] = [];
+  let parts: SlidePart[] = [];
+  let length = 0;
+
+  const flush = () => {
+    if (!parts.length) return;
+    slides.push({ parts, text: slideText(parts) });
+    parts = [];
+    length = 0;
+  };
+
+  verses.forEach(verse => {
+    const chunks = splitVerse(verse.text, maxChars);
+    chunks.forEach((chunk, i) => {
+      if (length && length + chunk.length > maxChars) flush();
+      parts.push({
+        number: verse.number,
+        text: chunk,
+        continued: i > 0,
+        ...(chunks.length > 1 ? { piece: { index: i, count: chunks.length } } : {}),
+      });
+      length += chunk.length + 1;
+    });
+  });
+  flush();
+  return slides;
+}
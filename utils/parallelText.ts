@@ -0,0 +1,89 @@
+import { ParallelLayout, ParallelText, PassageVerse, ScriptureReference, Slide, SlidePart, VerificationStatus } from '../types';
+import { resolveLocalVerse, verifyVerseText } from './verseVerification';
+
+const PARALLEL_KEY = 'inspired-ai:parallel';
+
+// Up to three translations on screen at once, counting the primary one
+export const MAX_PARALLEL = 2;
+
+export const COMMON_TRANSLATIONS = ['KJV', 'NKJV', 'NIV', 'ESV', 'NLT', 'NASB', 'WEB'];
+
+export interface ParallelSettings {
+  translations: string[];
+  layout: ParallelLayout;
+}
+
+export function loadParallelSettings(): ParallelSettings {
+  try {
+    const saved = JSON.parse(localStorage.getItem(PARALLEL_KEY) || 'null');
+    if (saved && Array.isArray(saved.translations) && Object.values(ParallelLayout).includes(saved.layout)) {
+      return { translations: saved.translations.slice(0, MAX_PARALLEL), layout: saved.layout };
+    }
+  } catch (e) {}
+  return { translations: [], layout: ParallelLayout.COLUMNS };
+}
+
+export function saveParallelSettings(settings: ParallelSettings): void {
+  localStorage.setItem(PARALLEL_KEY, JSON.stringify(settings));
+}
+
+/**
+ * Local text is preferred for each parallel translation; the model's rendering is
+ * used (and verified where possible) only when the store lacks it. Translations
+ * neither source can supply are left out.
+ */
+export async function resolveParallels(
+  reference: ScriptureReference | null,
+  translations: string[],
+  modelTexts: { translation: string; text: string; verses?: PassageVerse[] }[] = [],
+): Promise<ParallelText[]> {
+  if (!reference) return [];
+  const resolved = await Promise.all(translations.map(async (translation): Promise<ParallelText | null> => {
+    const local = await resolveLocalVerse(reference, translation);
+    if (local) return { translation, text: local.text, verification: VerificationStatus.VERIFIED, verses: local.verses };
+    const model = modelTexts.find(m => m.translation.toUpperCase() === translation.toUpperCase());
+    if (!model) return null;
+    const { text, verification, verses } = await verifyVerseText(reference, model.text, translation);
+    // The model's own verse numbers still let its text follow the primary slides
+    const modelVerses = model.verses?.filter(v => v.number !== undefined);
+    return { translation, text, verification, verses: verses ?? (modelVerses?.length ? modelVerses : undefined) };
+  }));
+  return resolved.filter((p): p is ParallelText => !!p);
+}
+
+// The same share of a verse as the primary piece, cut at word breaks
+const pieceOf = (text: string, piece?: SlidePart['piece']) => {
+  if (!piece) return text;
+  const words = text.split(/\s+/).filter(Boolean);
+  const total = words.reduce((sum, w) => sum + w.length + 1, 0);
+  let offset = 0;
+  return words.filter(word => {
+    const middle = offset + word.length / 2;
+    offset += word.length + 1;
+    return Math.floor((middle / total) * piece.count) === piece.index;
+  }).join(' ');
+};
+
+/**
+ * The part of a parallel translation matching the primary slide, aligned by verse
+ * number so each column shows the same verses. A verse split across primary slides
+ * is split in the same proportions; text without verse numbers is shown whole
+ * unless the primary slide is one piece of a single long verse.
+ */
+export function alignParallelSlide(parallel: Pick<ParallelText, 'text' | 'verses'>, slide?: Slide | null): Slide {
+  const parts = (slide?.parts ?? []).flatMap(part => {
+    const verse = part.number !== undefined && parallel.verses?.find(v => v.number === part.number);
+    return verse ? [{ number: verse.number, text: pieceOf(verse.text, part.piece), continued: part.continued }] : [];
+  });
+  if (parts.length) return { parts, text: parts.map(p => p.text).join(' ') };
+  const only = slide?.parts.length === 1 ? slide.parts[0] : null;
+  const text = only?.number === undefined ? pieceOf(parallel.text, only?.piece) : parallel.text;
+  return { parts: [{ text, continued: false }], text };
+}
+
+/** Effective text length for sizing, so narrow columns or stacked blocks shrink together. */
+export function balancedLength(texts: string[], layout: ParallelLayout): number {
+  if (texts.length <= 1) return texts[0]?.length ?? 0;
+  if (layout === ParallelLayout.STACKED) return texts.reduce((sum, t) => sum + t.length, 0);
+  return Math.max(...texts.map(t => t.length)) * texts.length;
+}
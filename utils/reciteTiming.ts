@@ -0,0 +1,196 @@
+// Analysis frame for the energy envelope
+const FRAME_SECONDS = 0.01;
+// Quieter than this share of the typical speech level counts as silence
+const SILENCE_RATIO = 0.12;
+// Shorter dips are stop consonants, not pauses
+const MIN_PAUSE_SECONDS = 0.08;
+// How far a pause may sit from where the syllable count expects a phrase break, as a share of the speech span
+const PAUSE_TOLERANCE = 0.2;
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+interface SpeechAnalysis {
+  speech: Span;
+  pauses: Span[];
+}
+
+// Vowel-group count; digits are spoken as number words, roughly one and a half syllables each
+export function countSyllables(word: string): number {
+  const digits = word.replace(/\D/g, '');
+  if (digits) return Math.max(1, Math.round(digits.length * 1.5));
+  const letters = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (!letters) return 1;
+  const groups = letters.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '').match(/[aeiouy]+/g);
+  return Math.max(1, groups?.length ?? 1);
+}
+
+// Words after which a reader takes a breath
+const endsPhrase = (word: string) => /[,;:.!?—)]["'”’]*$/.test(word);
+
+function analyzeSpeech(samples: Float32Array, sampleRate: number): SpeechAnalysis | null {
+  const frameLength = Math.max(1, Math.round(sampleRate * FRAME_SECONDS));
+  const levels: number[] = [];
+  for (let offset = 0; offset < samples.length; offset += frameLength) {
+    let sum = 0;
+    const end = Math.min(samples.length, offset + frameLength);
+    for (let i = offset; i < end; i++) sum += samples[i] * samples[i];
+    levels.push(Math.sqrt(sum / (end - offset)));
+  }
+
+  const sorted = [...levels].sort((a, b) => a - b);
+  const typical = sorted[Math.floor(sorted.length * 0.9)] ?? 0;
+  if (typical <= 0) return null;
+  const threshold = typical * SILENCE_RATIO;
+
+  const first = levels.findIndex(level => level >= threshold);
+  let last = levels.length - 1;
+  while (last > first && levels[last] < threshold) last--;
+  if (first < 0) return null;
+
+  const pauses: Span[] = [];
+  let quietFrom = -1;
+  for (let i = first; i <= last; i++) {
+    if (levels[i] < threshold) {
+      if (quietFrom < 0) quietFrom = i;
+    } else if (quietFrom >= 0) {
+      if ((i - quietFrom) * FRAME_SECONDS >= MIN_PAUSE_SECONDS) pauses.push({ start: quietFrom * FRAME_SECONDS, end: i * FRAME_SECONDS });
+      quietFrom = -1;
+    }
+  }
+  return { speech: { start: first * FRAME_SECONDS, end: (last + 1) * FRAME_SECONDS }, pauses };
+}
+
+// Spreads words over the voiced time of a segment by syllable count, skipping the pauses inside it
+function distribute(words: string[], segment: Span, pauses: Span[]): number[] {
+  const voiced: Span[] = [];
+  let cursor = segment.start;
+  pauses
+    .filter(p => p.start >= segment.start && p.end <= segment.end)
+    .forEach(p => {
+      if (p.start > cursor) voiced.push({ start: cursor, end: p.start });
+      cursor = p.end;
+    });
+  if (segment.end > cursor) voiced.push({ start: cursor, end: segment.end });
+
+  const voicedLength = voiced.reduce((sum, span) => sum + span.end - span.start, 0);
+  const syllables = words.map(countSyllables);
+  const total = syllables.reduce((a, b) => a + b, 0);
+
+  let spoken = 0;
+  return syllables.map(count => {
+    let offset = (spoken / total) * voicedLength;
+    spoken += count;
+    // A word starting exactly where one voiced span ends really starts after the pause
+    for (const span of voiced) {
+      const length = span.end - span.start;
+      if (offset < length) return span.start + offset;
+      offset -= length;
+    }
+    return segment.end;
+  });
+}
+
+/**
+ * Estimates when each word starts, in seconds from the start of the audio. The TTS
+ * response carries no word timestamps, so pauses in the energy envelope are matched to
+ * the punctuation where the syllable count expects them, and words in between are
+ * spread by syllables over the voiced time.
+ */
+export function estimateWordTimings(samples: Float32Array, sampleRate: number, words: string[]): number[] {
+  if (!words.length) return [];
+  const analysis = analyzeSpeech(samples, sampleRate);
+  const duration = samples.length / sampleRate;
+  if (!analysis) return words.map((_, i) => (i / words.length) * duration);
+
+  const { speech, pauses } = analysis;
+  const span = speech.end - speech.start;
+  const syllables = words.map(countSyllables);
+  const total = syllables.reduce((a, b) => a + b, 0);
+
+  // Anchor each phrase break to the nearest unused pause after the previous anchor
+  const anchors: { afterWord: number; pause: Span }[] = [];
+  let spoken = 0;
+  let nextPause = 0;
+  words.forEach((word, i) => {
+    spoken += syllables[i];
+    if (i === words.length - 1 || !endsPhrase(word)) return;
+    const expected = speech.start + (spoken / total) * span;
+    let best = -1;
+    for (let p = nextPause; p < pauses.length; p++) {
+      const distance = Math.abs((pauses[p].start + pauses[p].end) / 2 - expected);
+      if (distance > span * PAUSE_TOLERANCE) continue;
+      if (best < 0 || distance < Math.abs((pauses[best].start + pauses[best].end) / 2 - expected)) best = p;
+    }
+    if (best < 0) return;
+    anchors.push({ afterWord: i, pause: pauses[best] });
+    nextPause = best + 1;
+  });
+
+  const timings: number[] = [];
+  let firstWord = 0;
+  let segmentStart = speech.start;
+  [...anchors, { afterWord: words.length - 1, pause: { start: speech.end, end: speech.end } }].forEach(anchor => {
+    timings.push(...distribute(words.slice(firstWord, anchor.afterWord + 1), { start: segmentStart, end: anchor.pause.start }, pauses));
+    firstWord = anchor.afterWord + 1;
+    segmentStart = anchor.pause.end;
+  });
+  return timings;
+}
+
+export interface RecitePlayback {
+  pause: () => void;
+  resume: () => void;
+  stop: () => void;
+}
+
+/**
+ * Plays a recitation and reports the word being spoken. Position comes from the audio
+ * clock, so the highlight holds while the context is suspended and never drifts from
+ * what the audience hears.
+ */
+export function playRecitation(
+  ctx: AudioContext,
+  buffer: AudioBuffer,
+  timings: number[],
+  callbacks: { onWord: (index: number) => void; onEnd: () => void },
+): RecitePlayback {
+  const source = ctx.createBufferSource();
+  source.buffer = buffer;
+  source.connect(ctx.destination);
+
+  const startedAt = ctx.currentTime;
+  let frame = 0;
+  let currentWord = -1;
+
+  const tick = () => {
+    // currentTime is when audio is handed to the device; outputLatency is how much later it is heard
+    const heard = ctx.currentTime - startedAt - (ctx.outputLatency || ctx.baseLatency || 0);
+    let word = currentWord;
+    while (word + 1 < timings.length && timings[word + 1] <= heard) word++;
+    if (word !== currentWord) {
+      currentWord = word;
+      callbacks.onWord(word);
+    }
+    frame = requestAnimationFrame(tick);
+  };
+
+  source.onended = () => {
+    cancelAnimationFrame(frame);
+    callbacks.onEnd();
+  };
+  source.start(startedAt);
+  frame = requestAnimationFrame(tick);
+
+  return {
+    pause: () => { ctx.suspend().catch(() => {}); },
+    resume: () => { ctx.resume().catch(() => {}); },
+    stop: () => {
+      // A suspended context would hold back the ended event
+      ctx.resume().catch(() => {});
+      try { source.stop(); } catch (e) {}
+    },
+  };
+}
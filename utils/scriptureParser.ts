@@ -0,0 +1,269 @@
+import { ScriptureReference } from '../types';
+import { BIBLE_BOOKS, BibleBook, MAX_ALIAS_WORDS, findBookByAlias, getBook, getBookIndex } from './bibleBooks';
+
+interface Token {
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface ReferenceMatch {
+  reference: ScriptureReference;
+  // Character offsets of the matched reference within the source text
+  start: number;
+  end: number;
+}
+
+const UNITS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9,
+};
+const TEENS: Record<string, number> = {
+  ten: 10, eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15,
+  sixteen: 16, seventeen: 17, eighteen: 18, nineteen: 19,
+};
+const TENS: Record<string, number> = {
+  twenty: 20, thirty: 30, forty: 40, fourty: 40, fifty: 50, sixty: 60, seventy: 70, eighty: 80, ninety: 90,
+};
+const BOOK_ORDINALS: Record<string, number> = {
+  '1': 1, '2': 2, '3': 3,
+  first: 1, second: 2, third: 3,
+  one: 1, two: 2, three: 3,
+  i: 1, ii: 2, iii: 3,
+};
+const ORDINAL_SUFFIXES = new Set(['st', 'nd', 'rd']);
+const CHAPTER_WORDS = new Set(['chapter', 'chap', 'ch']);
+const VERSE_SEPARATORS = new Set([':', '.', 'colon', 'verse', 'verses', 'vs', 'vv', 'v']);
+const RANGE_WORDS = new Set(['-', '–', '—', 'through', 'thru', 'to', 'till', 'until', 'dash']);
+
+// Abbreviations that are also everyday words ("I am 3 years in") only count when written
+// as a citation, with a period or a chapter:verse colon ("Am. 3", "Am 3:7")
+const WORD_ALIASES = new Set(['am']);
+
+// Longest verse in the canon is Psalm 119:176
+const MAX_VERSE = 176;
+
+const tokenize = (input: string): Token[] => {
+  const tokens: Token[] = [];
+  const pattern = /\d+|[a-z]+|[:.\-–—]/gi;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(input)) !== null) {
+    tokens.push({ text: match[0].toLowerCase(), start: match.index, end: match.index + match[0].length });
+  }
+  return tokens;
+};
+
+const isWord = (token?: Token) => !!token && /^[a-z]+$/.test(token.text);
+
+const isNumberWord = (text?: string) =>
+  !!text && (text in UNITS || text in TEENS || text in TENS || text === 'hundred');
+
+// Reads a digit token or a spoken number ("twenty-three", "one hundred and nineteen")
+const readNumber = (tokens: Token[], index: number): { value: number; next: number } | null => {
+  const first = tokens[index];
+  if (!first) return null;
+  if (/^\d+$/.test(first.text)) return { value: parseInt(first.text, 10), next: index + 1 };
+
+  let value = 0;
+  let i = index;
+  let matched = false;
+
+  // "one oh five" is the spoken form of 105
+  if (first.text in UNITS && (tokens[i + 1]?.text === 'oh' || tokens[i + 1]?.text === 'o') && tokens[i + 2]?.text in UNITS) {
+    return { value: UNITS[first.text] * 100 + UNITS[tokens[i + 2].text], next: i + 3 };
+  }
+
+  if (tokens[i]?.text in UNITS && tokens[i + 1]?.text === 'hundred') {
+    value = UNITS[tokens[i].text] * 100;
+    i += 2;
+    matched = true;
+  } else if (tokens[i]?.text === 'hundred') {
+    value = 100;
+    i += 1;
+    matched = true;
+  }
+  if (matched && tokens[i]?.text === 'and' && isNumberWord(tokens[i + 1]?.text)) i += 1;
+
+  const text = tokens[i]?.text;
+  if (text in TEENS) {
+    value += TEENS[text];
+    i += 1;
+    matched = true;
+  } else if (text in TENS) {
+    value += TENS[text];
+    i += 1;
+    matched = true;
+    const unitIndex = tokens[i]?.text === '-' ? i + 1 : i;
+    if (tokens[unitIndex]?.text in UNITS) {
+      value += UNITS[tokens[unitIndex].text];
+      i = unitIndex + 1;
+    }
+  } else if (text in UNITS) {
+    value += UNITS[text];
+    i += 1;
+    matched = true;
+  }
+
+  return matched ? { value, next: i } : null;
+};
+
+interface BookMatch {
+  book: BibleBook;
+  next: number;
+  // Set for word-like abbreviations, which need a chapter:verse colon to count
+  needsColon?: boolean;
+}
+
+const matchAlias = (tokens: Token[], index: number, prefix: string): BookMatch | null => {
+  for (let length = MAX_ALIAS_WORDS; length > 0; length--) {
+    const words = tokens.slice(index, index + length);
+    if (words.length < length || !words.every(isWord)) continue;
+    const alias = prefix + words.map(w => w.text).join(' ');
+    const book = findBookByAlias(alias);
+    if (!book) continue;
+    // Abbreviations are often written with a period (Rom. 8:28)
+    const last = tokens[index + length - 1];
+    const period = tokens[index + length];
+    const hasPeriod = period?.text === '.' && period.start === last.end;
+    const next = hasPeriod ? index + length + 1 : index + length;
+    return WORD_ALIASES.has(alias) && !hasPeriod ? { book, next, needsColon: true } : { book, next };
+  }
+  return null;
+};
+
+const matchBook = (tokens: Token[], index: number): BookMatch | null => {
+  const ordinal = BOOK_ORDINALS[tokens[index].text];
+  if (ordinal) {
+    let next = index + 1;
+    if (/^\d$/.test(tokens[index].text) && ORDINAL_SUFFIXES.has(tokens[next]?.text)) next++;
+    const numbered = matchAlias(tokens, next, `${ordinal} `);
+    if (numbered) return numbered;
+  }
+  return matchAlias(tokens, index, '');
+};
+
+const readReference = (
+  tokens: Token[],
+  index: number,
+  book: BibleBook,
+): { reference: ScriptureReference; next: number } | null => {
+  let i = CHAPTER_WORDS.has(tokens[index]?.text) ? index + 1 : index;
+  const first = readNumber(tokens, i);
+  if (!first) return null;
+  i = first.next;
+
+  let chapter = first.value;
+  let verseStart: number | undefined;
+  let verseEnd: number | undefined;
+  const hasSeparator = VERSE_SEPARATORS.has(tokens[i]?.text);
+
+  if (book.chapters === 1 && !hasSeparator) {
+    // Single-chapter books are cited by verse alone (Jude 3)
+    chapter = 1;
+    verseStart = first.value;
+  } else {
+    const verse = readNumber(tokens, hasSeparator ? i + 1 : i);
+    if (verse) {
+      verseStart = verse.value;
+      i = verse.next;
+    }
+  }
+
+  if (verseStart !== undefined && RANGE_WORDS.has(tokens[i]?.text)) {
+    const endIndex = VERSE_SEPARATORS.has(tokens[i + 1]?.text) ? i + 2 : i + 1;
+    const end = readNumber(tokens, endIndex);
+    // Cross-chapter ranges (Romans 8:28-9:2) are not supported; keep the start verse only
+    if (end && tokens[end.next]?.text !== ':') {
+      verseEnd = end.value;
+      i = end.next;
+    }
+  }
+
+  if (chapter < 1 || chapter > book.chapters) return null;
+  if (verseStart !== undefined && (verseStart < 1 || verseStart > MAX_VERSE)) return null;
+  if (verseEnd !== undefined && (verseEnd <= verseStart! || verseEnd > MAX_VERSE)) verseEnd = undefined;
+
+  const reference: ScriptureReference = { bookId: book.id, chapter };
+  if (verseStart !== undefined) reference.verseStart = verseStart;
+  if (verseEnd !== undefined) reference.verseEnd = verseEnd;
+  return { reference, next: i };
+};
+
+export function findReferences(text: string): ReferenceMatch[] {
+  const tokens = tokenize(text);
+  const matches: ReferenceMatch[] = [];
+  let i = 0;
+  while (i < tokens.length) {
+    const book = matchBook(tokens, i);
+    const parsed = book && readReference(tokens, book.next, book.book);
+    if (parsed && (!book.needsColon || tokens.slice(book.next, parsed.next).some(t => t.text === ':'))) {
+      matches.push({ reference: parsed.reference, start: tokens[i].start, end: tokens[parsed.next - 1].end });
+      i = parsed.next;
+    } else {
+      i++;
+    }
+  }
+  return matches;
+}
+
+export function parseReference(input: string): ScriptureReference | null {
+  return findReferences(input)[0]?.reference ?? null;
+}
+
+export function formatReference(reference: ScriptureReference): string {
+  const book = getBook(reference.bookId);
+  if (!book) return '';
+  const name = book.citationName ?? book.name;
+  if (reference.verseStart === undefined) return `${name} ${reference.chapter}`;
+  const verses = reference.verseEnd ? `${reference.verseStart}-${reference.verseEnd}` : `${reference.verseStart}`;
+  return `${name} ${reference.chapter}:${verses}`;
+}
+
+export function isSameReference(a?: ScriptureReference | null, b?: ScriptureReference | null): boolean {
+  if (!a || !b) return false;
+  return a.bookId === b.bookId
+    && a.chapter === b.chapter
+    && a.verseStart === b.verseStart
+    && a.verseEnd === b.verseEnd;
+}
+
+const stepChapter = (bookId: string, chapter: number, delta: 1 | -1): ScriptureReference | null => {
+  const index = getBookIndex(bookId);
+  const book = BIBLE_BOOKS[index];
+  if (!book) return null;
+  const target = chapter + delta;
+  if (target >= 1 && target <= book.chapters) return { bookId, chapter: target };
+  const adjacent = BIBLE_BOOKS[index + delta];
+  if (!adjacent) return null;
+  return { bookId: adjacent.id, chapter: delta > 0 ? 1 : adjacent.chapters };
+};
+
+/**
+ * Returns the verse (or chapter, for chapter-only references) adjacent to `reference`.
+ * `getVerseCount` lets callers with chapter lengths roll over chapter boundaries;
+ * without it, stepping back from verse 1 lands on the whole previous chapter.
+ */
+export function stepReference(
+  reference: ScriptureReference,
+  delta: 1 | -1,
+  getVerseCount?: (bookId: string, chapter: number) => number | undefined,
+): ScriptureReference | null {
+  if (reference.verseStart === undefined) return stepChapter(reference.bookId, reference.chapter, delta);
+
+  if (delta > 0) {
+    const verse = (reference.verseEnd ?? reference.verseStart) + 1;
+    const count = getVerseCount?.(reference.bookId, reference.chapter);
+    if (count !== undefined && verse > count) {
+      const next = stepChapter(reference.bookId, reference.chapter, 1);
+      return next && { ...next, verseStart: 1 };
+    }
+    return { bookId: reference.bookId, chapter: reference.chapter, verseStart: verse };
+  }
+
+  if (reference.verseStart > 1) {
+    return { bookId: reference.bookId, chapter: reference.chapter, verseStart: reference.verseStart - 1 };
+  }
+  const previous = stepChapter(reference.bookId, reference.chapter, -1);
+  if (!previous) return null;
+  const lastVerse = getVerseCount?.(previous.bookId, previous.chapter);
+  return lastVerse !== undefined ? { ...previous, verseStart: lastVerse } : previous;
+}
@@ -0,0 +1,65 @@
+import { SermonCue, SermonPlan } from '../types';
+import { findReferences, formatReference } from './scriptureParser';
+import { STORES, idbDelete, idbGetAll, idbPut } from './indexedDb';
+
+// Strips Markdown markers so "**Read:** [John 3:16](...)" yields a readable context line
+const cleanLine = (line: string) =>
+  line.replace(/^\s*(#+|[-*+>]|\d+\.)\s*/, '').replace(/[*_`]|\[|\]\([^)]*\)/g, '').trim();
+
+/**
+ * Extracts every scripture reference from an outline, in order, skipping repeats.
+ * References without a verse number are flagged for the operator to confirm.
+ */
+export function extractCues(source: string): SermonCue[] {
+  const cues: SermonCue[] = [];
+  const seen = new Set<string>();
+  source.split(/\r?\n/).forEach(line => {
+    // Drop list numbering first so "1) John 3:16" is not read as 1 John
+    findReferences(line.replace(/^\s*\d+[.)]\s+/, '')).forEach(match => {
+      const label = formatReference(match.reference);
+      if (seen.has(label)) return;
+      seen.add(label);
+      const cue: SermonCue = { id: crypto.randomUUID(), reference: match.reference, label, context: cleanLine(line) };
+      if (match.reference.verseStart === undefined) cue.needsConfirmation = true;
+      cues.push(cue);
+    });
+  });
+  return cues;
+}
+
+// `confirmed` lists the labels of chapter-only cues the operator kept
+export function createPlan(title: string, serviceDate: string, source: string, confirmed: string[] = []): SermonPlan {
+  return {
+    id: crypto.randomUUID(),
+    title: title.trim() || 'Untitled Sermon',
+    serviceDate,
+    source,
+    cues: extractCues(source)
+      .filter(cue => !cue.needsConfirmation || confirmed.includes(cue.label))
+      .map(({ needsConfirmation, ...cue }) => cue),
+    updatedAt: Date.now(),
+  };
+}
+
+/** Prompt section telling the model which references the sermon is expected to use. */
+export function buildPlanInstruction(plan: SermonPlan | null): string {
+  if (!plan?.cues.length) return '';
+  return [
+    `SERMON PLAN ("${plan.title}"): The preacher is expected to reference these passages, in this order:`,
+    ...plan.cues.map((cue, i) => `${i + 1}. ${cue.label}`),
+    '- When speech is ambiguous, prefer a reference from this list, especially the next one in order.',
+  ].join('\n');
+}
+
+export async function savePlan(plan: SermonPlan): Promise<void> {
+  await idbPut(STORES.sermonPlans, plan.id, { ...plan, updatedAt: Date.now() });
+}
+
+export async function loadPlans(): Promise<SermonPlan[]> {
+  const plans = await idbGetAll<SermonPlan>(STORES.sermonPlans);
+  return plans.sort((a, b) => b.serviceDate.localeCompare(a.serviceDate) || b.updatedAt - a.updatedAt);
+}
+
+export async function deletePlan(id: string): Promise<void> {
+  await idbDelete(STORES.sermonPlans, id);
+}
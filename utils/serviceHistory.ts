@@ -0,0 +1,193 @@
+import { HistoryEntry, VerseData, VerseSource, VoiceCommandEntry } from '../types';
+import { STORES, idbGetAll, idbPut } from './indexedDb';
+
+export const localDate = (time: number) => {
+  const date = new Date(time);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+// With no session running, this long without activity ends a service (e.g. between 9am and 11am services)
+const SERVICE_GAP_MS = 30 * 60 * 1000;
+
+let service: { id: string; lastActivity: number; live: boolean } | null = null;
+
+/** Id of the service in progress, starting a new one after a long idle gap. */
+export function currentServiceId(now = Date.now()): string {
+  if (!service || (!service.live && now - service.lastActivity > SERVICE_GAP_MS)) {
+    service = { id: crypto.randomUUID(), lastActivity: now, live: false };
+  }
+  service.lastActivity = now;
+  return service.id;
+}
+
+// A running session keeps its service open however long the gaps between verses
+export function beginServiceSession(): void {
+  currentServiceId();
+  service!.live = true;
+}
+
+export function endServiceSession(): void {
+  if (!service) return;
+  service.live = false;
+  service.lastActivity = Date.now();
+}
+
+export const activeServiceId = () => service?.id ?? null;
+
+/** Continues the latest logged service after a reload instead of splitting it in two. */
+export async function resumeService(): Promise<void> {
+  const last = (await loadHistory()).pop();
+  if (service || !last?.serviceId) return;
+  service = { id: last.serviceId, lastActivity: last.shownAt + (last.durationMs ?? 0), live: false };
+}
+
+export interface ServiceSummary {
+  // Entries logged before services had ids are grouped by their date instead
+  id: string;
+  serviceDate: string;
+  startedAt: number;
+}
+
+const serviceKey = (entry: HistoryEntry) => entry.serviceId ?? entry.serviceDate;
+
+/** Services in the log, newest first. */
+export function listServices(entries: HistoryEntry[]): ServiceSummary[] {
+  const services = new Map<string, ServiceSummary>();
+  entries.forEach(entry => {
+    const key = serviceKey(entry);
+    if (!services.has(key)) services.set(key, { id: key, serviceDate: entry.serviceDate, startedAt: entry.shownAt });
+  });
+  return Array.from(services.values()).sort((a, b) => b.startedAt - a.startedAt);
+}
+
+export const serviceEntries = (entries: HistoryEntry[], service: ServiceSummary) =>
+  entries.filter(entry => serviceKey(entry) === service.id);
+
+/** Whether a caption line or voice command recorded at `at` belongs to the service. */
+export const inService = (record: { serviceId?: string }, at: number, service: Pick<ServiceSummary, 'id' | 'serviceDate'>) =>
+  record.serviceId ? record.serviceId === service.id : localDate(at) === service.serviceDate;
+
+export const serviceLabel = (service: ServiceSummary) =>
+  `${service.serviceDate} ${new Date(service.startedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+
+// File name stem, e.g. "inspired-ai-2024-05-12-0900"
+export const serviceFileName = (service: ServiceSummary) => {
+  const time = new Date(service.startedAt);
+  return `inspired-ai-${service.serviceDate}-${String(time.getHours()).padStart(2, '0')}${String(time.getMinutes()).padStart(2, '0')}`;
+};
+
+const createEntry = (verse: VerseData, blocked: boolean, save = true): HistoryEntry => {
+  const now = Date.now();
+  return {
+    id: crypto.randomUUID(),
+    serviceDate: localDate(now),
+    ...(save ? { serviceId: currentServiceId(now) } : {}),
+    reference: verse.reference,
+    translation: verse.translation,
+    source: verse.source ?? VerseSource.AI,
+    blocked,
+    shownAt: now,
+    ...(verse.secondary ? {
+      secondaryLanguage: verse.secondary.language,
+      secondarySource: verse.secondary.generated ? 'AI' : verse.secondary.translation,
+    } : {}),
+  };
+};
+
+const persist = (entry: HistoryEntry) =>
+  idbPut(STORES.history, entry.id, entry).catch(err => console.warn('Could not save history entry:', err));
+
+// Entries timed but kept out of the log, e.g. verses shown during a rehearsal
+const unsaved = new WeakSet<HistoryEntry>();
+
+/**
+ * Logs a verse going live; pass the entry to finishEntry when it leaves the screen.
+ * With `save` false the entry only times the verse and is never written.
+ */
+export function recordShown(verse: VerseData, save = true): HistoryEntry {
+  const entry = createEntry(verse, false, save);
+  if (save) persist(entry);
+  else unsaved.add(entry);
+  return entry;
+}
+
+export function recordBlocked(verse: VerseData): void {
+  persist(createEntry(verse, true));
+}
+
+export function finishEntry(entry: HistoryEntry): void {
+  if (unsaved.has(entry)) return;
+  persist({ ...entry, durationMs: Date.now() - entry.shownAt });
+}
+
+export async function loadHistory(): Promise<HistoryEntry[]> {
+  const entries = await idbGetAll<HistoryEntry>(STORES.history);
+  return entries.sort((a, b) => a.shownAt - b.shownAt);
+}
+
+const formatTime = (time: number) => new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+export const formatDuration = (ms?: number) => {
+  if (ms === undefined) return '';
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+export function toJSON(entries: HistoryEntry[]): string {
+  return JSON.stringify(entries, null, 2);
+}
+
+const csvCell = (value: string | number | boolean | undefined) => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function toCSV(entries: HistoryEntry[]): string {
+  const header = ['time', 'reference', 'translation', 'source', 'blocked', 'seconds_on_screen', 'secondary_language', 'secondary_source'];
+  const rows = entries.map(entry => [
+    new Date(entry.shownAt).toISOString(),
+    entry.reference,
+    entry.translation,
+    entry.source,
+    entry.blocked,
+    entry.durationMs !== undefined ? Math.round(entry.durationMs / 1000) : undefined,
+    entry.secondaryLanguage,
+    entry.secondarySource,
+  ].map(csvCell).join(','));
+  return [header.join(','), ...rows].join('\n');
+}
+
+// Audit trail of gated voice commands, including the ones that were refused
+export function voiceCommandsToCSV(entries: VoiceCommandEntry[]): string {
+  const header = ['time', 'command', 'utterance', 'honored', 'reason', 'args'];
+  const rows = entries.map(entry => [
+    new Date(entry.at).toISOString(),
+    entry.name,
+    entry.utterance,
+    entry.honored,
+    entry.reason,
+    JSON.stringify(entry.args),
+  ].map(csvCell).join(','));
+  return [header.join(','), ...rows].join('\n');
+}
+
+/** Scripture list suitable for posting alongside the sermon recording; blocked verses are left out. */
+export function toMarkdown(entries: HistoryEntry[], title: string): string {
+  const shown = entries.filter(entry => !entry.blocked);
+  const lines = shown.map(entry => {
+    const translations = entry.secondarySource ? `${entry.translation} / ${entry.secondarySource}` : entry.translation;
+    return `- **${entry.reference}** (${translations}) — ${formatTime(entry.shownAt)}`;
+  });
+  return [`# ${title}`, '', '## Scriptures', '', ...lines, ''].join('\n');
+}
+
+// Large files can be passed in parts so they are never joined into one string
+export function downloadFile(fileName: string, content: string | BlobPart[], mimeType: string): void {
+  const url = URL.createObjectURL(new Blob(Array.isArray(content) ? content : [content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoking in the same task can cancel the download in Safari and Firefox
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
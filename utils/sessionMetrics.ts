@@ -0,0 +1,136 @@
+import { ScriptureReference, SessionMetrics } from '../types';
+import { STORES, idbGetAll, idbPut } from './indexedDb';
+import { findReferences } from './scriptureParser';
+import { currentServiceId, localDate } from './serviceHistory';
+import { TranscriptFragment } from './voiceCommands';
+
+// USD per million tokens for native-audio Live models at the time of writing; check current pricing
+const INPUT_TOKEN_RATE = 3;
+const OUTPUT_TOKEN_RATE = 12;
+// Audio is billed at about 25 tokens per second
+const AUDIO_TOKENS_PER_SECOND = 25;
+const INPUT_BYTES_PER_SECOND = 16000 * 2;
+const OUTPUT_BYTES_PER_SECOND = 24000 * 2;
+
+const persist = (metrics: SessionMetrics) =>
+  idbPut(STORES.metrics, metrics.id, metrics).catch(err => console.warn('Could not save session metrics:', err));
+
+/**
+ * Accumulates the numbers for one session; `snapshot` is cheap enough to poll for the dashboard.
+ * A rehearsal is measured live but never saved, so it cannot pass for a real service.
+ */
+export function createMetricsCollector(model: string, rehearsal = false) {
+  const now = Date.now();
+  const metrics: SessionMetrics = {
+    id: crypto.randomUUID(),
+    serviceDate: localDate(now),
+    ...(rehearsal ? {} : { serviceId: currentServiceId(now) }),
+    model,
+    startedAt: now,
+    endedAt: now,
+    reconnects: 0,
+    audioBytesSent: 0,
+    audioBytesReceived: 0,
+    toolCalls: {},
+    latenciesMs: [],
+    inputTokens: 0,
+    outputTokens: 0,
+  };
+
+  return {
+    audioSent: (bytes: number) => { metrics.audioBytesSent += bytes; },
+    audioReceived: (bytes: number) => { metrics.audioBytesReceived += bytes; },
+    reconnect: () => { metrics.reconnects++; },
+    toolCall: (name: string, result: string) => {
+      const byResult = metrics.toolCalls[name] ?? (metrics.toolCalls[name] = {});
+      byResult[result] = (byResult[result] ?? 0) + 1;
+    },
+    latency: (ms: number) => { metrics.latenciesMs.push(Math.max(0, Math.round(ms))); },
+    usage: (usage: { promptTokenCount?: number; responseTokenCount?: number }) => {
+      metrics.inputTokens += usage.promptTokenCount ?? 0;
+      metrics.outputTokens += usage.responseTokenCount ?? 0;
+    },
+    snapshot: (): SessionMetrics => ({
+      ...metrics,
+      endedAt: Date.now(),
+      toolCalls: Object.fromEntries(Object.entries(metrics.toolCalls).map(([name, results]) => [name, { ...results }])),
+      latenciesMs: [...metrics.latenciesMs],
+    }),
+    // Saves the session so far; called when it stops and when the page closes mid-session
+    save: () => {
+      metrics.endedAt = Date.now();
+      if (!rehearsal) persist({ ...metrics });
+    },
+  };
+}
+
+export type MetricsCollector = ReturnType<typeof createMetricsCollector>;
+
+/**
+ * When the speech behind a verse update was heard: the fragment that completed the
+ * spoken reference, or for thematic searches the last speech before the tool call.
+ */
+export function speechHeardAt(fragments: TranscriptFragment[], location: ScriptureReference | null): number | null {
+  let text = '';
+  const ends = fragments.map(f => {
+    text += f.text;
+    return { offset: text.length, at: f.at };
+  });
+  const spoken = location && findReferences(text)
+    .filter(m => m.reference.bookId === location.bookId && m.reference.chapter === location.chapter)
+    .pop();
+  if (spoken) return ends.find(e => e.offset >= spoken.end)?.at ?? null;
+  return ends[ends.length - 1]?.at ?? null;
+}
+
+export async function loadMetrics(): Promise<SessionMetrics[]> {
+  const all = await idbGetAll<SessionMetrics>(STORES.metrics);
+  return all.sort((a, b) => a.startedAt - b.startedAt);
+}
+
+export function percentile(values: number[], p: number): number | null {
+  if (!values.length) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor((p / 100) * sorted.length))];
+}
+
+export const countToolCalls = (metrics: SessionMetrics, result?: string) =>
+  Object.values(metrics.toolCalls).reduce(
+    (sum, results) => sum + Object.entries(results).reduce((n, [r, count]) => n + (!result || r === result ? count : 0), 0),
+    0,
+  );
+
+/** Rough API cost in USD, from reported tokens or, when the server sent no usage, from the audio streamed. */
+export function estimateCost(metrics: SessionMetrics): number {
+  const inputTokens = metrics.inputTokens || (metrics.audioBytesSent / INPUT_BYTES_PER_SECOND) * AUDIO_TOKENS_PER_SECOND;
+  const outputTokens = metrics.outputTokens || (metrics.audioBytesReceived / OUTPUT_BYTES_PER_SECOND) * AUDIO_TOKENS_PER_SECOND;
+  return (inputTokens * INPUT_TOKEN_RATE + outputTokens * OUTPUT_TOKEN_RATE) / 1_000_000;
+}
+
+/** Sums every session of one service so services can be compared. */
+export function combineMetrics(sessions: SessionMetrics[]): SessionMetrics | null {
+  if (!sessions.length) return null;
+  return sessions.reduce((total, s) => {
+    const toolCalls = { ...total.toolCalls };
+    Object.entries(s.toolCalls).forEach(([name, results]) => {
+      const merged = { ...(toolCalls[name] ?? {}) };
+      Object.entries(results).forEach(([result, count]) => { merged[result] = (merged[result] ?? 0) + count; });
+      toolCalls[name] = merged;
+    });
+    return {
+      ...total,
+      startedAt: Math.min(total.startedAt, s.startedAt),
+      endedAt: Math.max(total.endedAt, s.endedAt),
+      reconnects: total.reconnects + s.reconnects,
+      audioBytesSent: total.audioBytesSent + s.audioBytesSent,
+      audioBytesReceived: total.audioBytesReceived + s.audioBytesReceived,
+      toolCalls,
+      latenciesMs: [...total.latenciesMs, ...s.latenciesMs],
+      inputTokens: total.inputTokens + s.inputTokens,
+      outputTokens: total.outputTokens + s.outputTokens,
+    };
+  });
+}
+
+// Time actually connected, summed per session rather than spanning the gaps between them
+export const sessionDuration = (sessions: SessionMetrics[]) => sessions.reduce((sum, s) => sum + s.endedAt - s.startedAt, 0);
@@ -0,0 +1,129 @@
+import { LiveSendRealtimeInputParameters, LiveSendToolResponseParameters, LiveServerMessage } from '@google/genai';
+import { STORES, idbDelete, idbGet, idbGetAllKeys, idbPut } from './indexedDb';
+import { LiveBackend, LiveSession } from './liveBackend';
+import { downloadFile } from './serviceHistory';
+
+// About ten seconds of mic audio; events are written out in chunks this size
+const CHUNK_EVENTS = 100;
+
+export type RecordedEvent =
+  | { at: number; kind: 'server'; message: LiveServerMessage }
+  | { at: number; kind: 'input'; params: LiveSendRealtimeInputParameters }
+  | { at: number; kind: 'toolResponse'; params: LiveSendToolResponseParameters };
+
+/**
+ * A captured session: every mic chunk and text sent, and every server message received,
+ * timestamped in ms from the moment the connection opened. Hand-written rehearsal
+ * scripts use the same format, usually with `server` events only.
+ */
+export interface SessionRecording {
+  version: 1;
+  model: string;
+  recordedAt: string;
+  events: RecordedEvent[];
+}
+
+export interface SessionRecorder {
+  backend: LiveBackend;
+  // Saves the recording so far as a file and frees its chunks; does nothing before the first connection
+  download: () => Promise<void>;
+}
+
+export function parseRecording(source: string): SessionRecording {
+  const data = JSON.parse(source);
+  if (data?.version !== 1 || !Array.isArray(data.events)) throw new Error('Not a session recording');
+  return data;
+}
+
+// Chunks of an earlier recording that was never downloaded, e.g. after the tab crashed
+const clearStaleChunks = async (keep: string) => {
+  const keys = await idbGetAllKeys(STORES.recordingChunks);
+  await Promise.all(keys.filter(key => Array.isArray(key) && key[0] !== keep).map(key => idbDelete(STORES.recordingChunks, key)));
+};
+
+/**
+ * Wraps a backend so a session's traffic can be saved and replayed with the mock backend.
+ * Reconnects append to the same recording, on one timeline from the first open. Events
+ * go to IndexedDB in serialized chunks as they arrive, so a long service's mic audio is
+ * never held in memory.
+ */
+export function createSessionRecorder(inner: LiveBackend): SessionRecorder {
+  const id = crypto.randomUUID();
+  let header: Omit<SessionRecording, 'events'> | null = null;
+  let openedAt = 0;
+  let pending: string[] = [];
+  let chunkCount = 0;
+  let writes: Promise<unknown> = Promise.resolve();
+  const at = () => Math.round(performance.now() - openedAt);
+
+  const flush = () => {
+    if (!pending.length) return;
+    const key = [id, chunkCount++];
+    const chunk = pending.join(',');
+    pending = [];
+    writes = writes
+      .then(() => idbPut(STORES.recordingChunks, key, chunk))
+      .catch(err => console.warn('Could not save recording chunk:', err));
+  };
+
+  const record = (event: RecordedEvent) => {
+    pending.push(JSON.stringify(event));
+    if (pending.length >= CHUNK_EVENTS) flush();
+  };
+
+  const backend: LiveBackend = {
+    name: inner.name,
+    connect: async ({ model, config, callbacks }) => {
+      if (!header) {
+        header = { version: 1, model, recordedAt: new Date().toISOString() };
+        openedAt = performance.now();
+        writes = clearStaleChunks(id).catch(err => console.warn('Could not clear old recording chunks:', err));
+      }
+
+      const session = await inner.connect({
+        model,
+        config,
+        callbacks: {
+          ...callbacks,
+          onmessage: message => {
+            record({ at: at(), kind: 'server', message });
+            callbacks.onmessage(message);
+          },
+        },
+      });
+
+      const recorded: LiveSession = {
+        sendRealtimeInput: params => {
+          record({ at: at(), kind: 'input', params });
+          session.sendRealtimeInput(params);
+        },
+        sendToolResponse: params => {
+          record({ at: at(), kind: 'toolResponse', params });
+          session.sendToolResponse(params);
+        },
+        close: () => session.close(),
+      };
+      return recorded;
+    },
+  };
+
+  return {
+    backend,
+    download: async () => {
+      if (!header) return;
+      flush();
+      await writes;
+      const keys = Array.from({ length: chunkCount }, (_, seq) => [id, seq]);
+      const chunks: string[] = [];
+      for (const key of keys) {
+        const chunk = await idbGet<string>(STORES.recordingChunks, key);
+        if (chunk) chunks.push(chunks.length ? `,${chunk}` : chunk);
+      }
+      // The header is written as JSON and left open for the events array
+      const opening = `${JSON.stringify(header).slice(0, -1)},"events":[`;
+      const stamp = header.recordedAt.replace(/[:.]/g, '-');
+      downloadFile(`inspired-ai-session-${stamp}.json`, [opening, ...chunks, ']}'], 'application/json');
+      await Promise.all(keys.map(key => idbDelete(STORES.recordingChunks, key)));
+    },
+  };
+}
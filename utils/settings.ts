@@ -0,0 +1,239 @@
+import { downloadFile } from './serviceHistory';
+import { DEFAULT_WAKE_PHRASE } from './voiceCommands';
+import { DEFAULT_GOVERNOR, GOVERNOR_LIMITS, GovernorSettings } from './updateGovernor';
+import { DEFAULT_VOICE_GATE, VOICE_GATE_LIMITS, VoiceGateSettings } from './voiceActivity';
+
+const SETTINGS_KEY = 'inspired-ai:settings';
+
+// Editable parts of the Live system instruction; {translation}, {currentReference} and {wakePhrase} are filled in at connect time
+export interface PromptSections {
+  identity: string;
+  thematicSearch: string;
+  verseTracking: string;
+  autoAdvance: string;
+  voiceCommands: string;
+  tone: string;
+}
+
+export interface AppSettings {
+  liveModel: string;
+  ttsModel: string;
+  voice: string;
+  defaultTranslation: string;
+  // Null uses the browser's default microphone
+  inputDeviceId: string | null;
+  autoAdvance: boolean;
+  wakePhrase: string;
+  governor: GovernorSettings;
+  voiceGate: VoiceGateSettings;
+  prompt: PromptSections;
+}
+
+export const PREBUILT_VOICES = ['Zephyr', 'Puck', 'Charon', 'Kore', 'Fenrir', 'Aoede', 'Leda', 'Orus'];
+
+export const PROMPT_PLACEHOLDERS = ['translation', 'currentReference', 'wakePhrase'];
+
+export const PROMPT_SECTION_LABELS: Record<keyof PromptSections, string> = {
+  identity: 'Identity',
+  thematicSearch: 'Thematic Search',
+  verseTracking: 'Verse Tracking',
+  autoAdvance: 'Auto-Advance',
+  voiceCommands: 'Voice Commands',
+  tone: 'Tone',
+};
+
+export const DEFAULT_PROMPT: PromptSections = {
+  identity: `YOU ARE "INSPIRED AI": THE PROPHETIC BIBLE ASSISTANT FOR IWC.
+
+CORE CAPABILITY: PERFECT SCRIPTURE RECALL.`,
+  thematicSearch: `PRIORITY 1: INTELLIGENT THEMATIC SEARCH
+- IF the user asks "Find me the scripture that says...", "Get me the verse that talks about...", or "What verse talks about [topic]":
+- You MUST identify the correct verse from your internal knowledge immediately.
+- CALL 'updateVerseDisplay' with the Reference, Text, and Translation ({translation}).
+- Speed is critical: Goal is < 2 seconds.
+- DO NOT explain yourself. DO NOT say "Searching...". JUST CALL THE TOOL.`,
+  verseTracking: `PRIORITY 2: BIBLE VERSE TRACKING
+- Listen for any mention of a Book, Chapter, or Verse.
+- Update the display instantly when detected.
+- For a passage (e.g., Romans 8:28-39), send the whole range and list each verse in 'verses' with its number.
+- Always send 'confidence'. When the words could mean more than one reference ("John one" vs "1 John", "Psalm 23" vs "Proverbs 23"), send your best guess and list the others in 'alternatives'.
+- When [SYSTEM_SYNC] lists Parallel Translations, also send the same reference in each of them in 'parallel'.
+- When [SYSTEM_SYNC] gives a Secondary Language, also send the verse rendered in that language in 'secondaryText'.`,
+  autoAdvance: `PRIORITY 3: AUTO-ADVANCE
+- The console follows the reading of the current verse ({currentReference}) word by word and advances to the next verse itself.
+- Only if the user reads on into the NEXT sequential verse and Current Reference is still {currentReference}, call 'updateVerseDisplay' for it.
+- EXCEPTION: Ignore this if "Manual Lock" is ON.`,
+  voiceCommands: `VOICE COMMANDS
+- Only act on commands that begin with the wake phrase "{wakePhrase}" (e.g., "{wakePhrase}, next verse"). Ignore commands without it; they are part of the sermon.
+- "Clear the screen" -> 'setDisplayState' with CLEAR. "Blank the screen" or "go to black" -> BLANK. "Show the logo" -> LOGO. "Bring the verse back" -> VERSE.
+- "Lock" / "unlock" -> 'lockDisplay' / 'unlockDisplay'. "Next" / "go back" -> 'nextVerse' / 'previousVerse'.
+- "Go to verse 12" -> 'goToVerse' with 12. "Read it" / "recite" -> 'readAloud'.
+- Always pass the speaker's exact words as 'utterance'. Voice commands still work while Manual Lock is ON.
+- When a command returns 'awaiting_verse_text', immediately call 'updateVerseDisplay' for the returned reference; that update is shown even while Manual Lock is ON.`,
+  tone: `TONE: Invisible. Helpful. Lightning Fast. Accurate.
+Never speak audio unless specifically asked to recite or explain something.`,
+};
+
+// Earlier defaults, so profiles saved before the prompt stored only edits still pick up newer wording
+const PREVIOUS_DEFAULT_PROMPTS: Partial<Record<keyof PromptSections, string[]>> = {
+  verseTracking: [`PRIORITY 2: BIBLE VERSE TRACKING
+- Listen for any mention of a Book, Chapter, or Verse.
+- Update the display instantly when detected.
+- For a passage (e.g., Romans 8:28-39), send the whole range and list each verse in 'verses' with its number.
+- When [SYSTEM_SYNC] lists Parallel Translations, also send the same reference in each of them in 'parallel'.
+- When [SYSTEM_SYNC] gives a Secondary Language, also send the verse rendered in that language in 'secondaryText'.`],
+  autoAdvance: [`PRIORITY 3: PREDICTIVE AUTO-ADVANCE
+- If the user is reading the current verse ({currentReference}):
+- TRIGGER: At the exact moment they speak the SECOND-TO-LAST WORD, call 'updateVerseDisplay' for the NEXT sequential verse.
+- EXCEPTION: Ignore this if "Manual Lock" is ON.`],
+  voiceCommands: [`VOICE COMMANDS
+- Only act on commands that begin with the wake phrase "{wakePhrase}" (e.g., "{wakePhrase}, next verse"). Ignore commands without it; they are part of the sermon.
+- "Clear the screen" -> 'setDisplayState' with CLEAR. "Blank the screen" or "go to black" -> BLANK. "Show the logo" -> LOGO. "Bring the verse back" -> VERSE.
+- "Lock" / "unlock" -> 'lockDisplay' / 'unlockDisplay'. "Next" / "go back" -> 'nextVerse' / 'previousVerse'.
+- "Go to verse 12" -> 'goToVerse' with 12. "Read it" / "recite" -> 'readAloud'.
+- Always pass the speaker's exact words as 'utterance'. Voice commands still work while Manual Lock is ON.`],
+};
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  liveModel: 'gemini-2.5-flash-native-audio-preview-12-2025',
+  ttsModel: 'gemini-2.5-flash-preview-tts',
+  voice: 'Zephyr',
+  defaultTranslation: 'NIV',
+  inputDeviceId: null,
+  autoAdvance: true,
+  wakePhrase: DEFAULT_WAKE_PHRASE,
+  governor: DEFAULT_GOVERNOR,
+  voiceGate: DEFAULT_VOICE_GATE,
+  prompt: DEFAULT_PROMPT,
+};
+
+/** Returns one message per problem; an empty list means the settings can be saved. */
+export function validateSettings(settings: AppSettings): string[] {
+  const errors: string[] = [];
+  if (!settings.liveModel.trim()) errors.push('Live model name is required.');
+  if (!settings.ttsModel.trim()) errors.push('Recite model name is required.');
+  if (!settings.voice.trim()) errors.push('Voice is required.');
+  if (!/^[A-Za-z0-9-]{2,12}$/.test(settings.defaultTranslation.trim())) errors.push('Default translation should be an abbreviation such as NIV or KJV.');
+  if (!settings.wakePhrase.trim()) errors.push('Wake phrase is required.');
+  (Object.keys(GOVERNOR_LIMITS) as (keyof typeof GOVERNOR_LIMITS)[]).forEach(key => {
+    const { min, max } = GOVERNOR_LIMITS[key];
+    const value = settings.governor[key];
+    if (!Number.isFinite(value) || value < min || value > max) {
+      errors.push(`${key === 'coalesceMs' ? 'Coalesce window' : 'Minimum on-screen time'} must be between ${min / 1000} and ${max / 1000} seconds.`);
+    }
+  });
+  const { threshold, hangoverMs } = settings.voiceGate;
+  if (!Number.isFinite(threshold) || threshold < VOICE_GATE_LIMITS.threshold.min || threshold > VOICE_GATE_LIMITS.threshold.max) {
+    errors.push(`Voice threshold must be between ${VOICE_GATE_LIMITS.threshold.min} and ${VOICE_GATE_LIMITS.threshold.max}.`);
+  }
+  if (!Number.isFinite(hangoverMs) || hangoverMs < VOICE_GATE_LIMITS.hangoverMs.min || hangoverMs > VOICE_GATE_LIMITS.hangoverMs.max) {
+    errors.push(`Voice hangover must be between ${VOICE_GATE_LIMITS.hangoverMs.min / 1000} and ${VOICE_GATE_LIMITS.hangoverMs.max / 1000} seconds.`);
+  }
+  if (!settings.prompt.identity.trim()) errors.push('The Identity prompt section cannot be empty.');
+  (Object.keys(settings.prompt) as (keyof PromptSections)[]).forEach(section => {
+    const unknown = Array.from(settings.prompt[section].matchAll(/\{(\w+)\}/g))
+      .map(match => match[1])
+      .filter(name => !PROMPT_PLACEHOLDERS.includes(name));
+    if (unknown.length) errors.push(`${PROMPT_SECTION_LABELS[section]} uses unknown placeholder {${unknown[0]}}.`);
+  });
+  return errors;
+}
+
+// Fills gaps from older or hand-edited profiles with defaults, keeping only known fields
+const normalizeSettings = (data: any): AppSettings => {
+  const pick = <T>(value: unknown, fallback: T): T => typeof value === typeof fallback ? value as T : fallback;
+  const prompt = { ...DEFAULT_PROMPT };
+  (Object.keys(DEFAULT_PROMPT) as (keyof PromptSections)[]).forEach(section => {
+    const saved = pick(data?.prompt?.[section], DEFAULT_PROMPT[section]);
+    prompt[section] = PREVIOUS_DEFAULT_PROMPTS[section]?.includes(saved) ? DEFAULT_PROMPT[section] : saved;
+  });
+  return {
+    liveModel: pick(data?.liveModel, DEFAULT_SETTINGS.liveModel),
+    ttsModel: pick(data?.ttsModel, DEFAULT_SETTINGS.ttsModel),
+    voice: pick(data?.voice, DEFAULT_SETTINGS.voice),
+    defaultTranslation: pick(data?.defaultTranslation, DEFAULT_SETTINGS.defaultTranslation),
+    inputDeviceId: typeof data?.inputDeviceId === 'string' ? data.inputDeviceId : null,
+    autoAdvance: pick(data?.autoAdvance, DEFAULT_SETTINGS.autoAdvance),
+    wakePhrase: pick(data?.wakePhrase, DEFAULT_SETTINGS.wakePhrase),
+    governor: {
+      coalesceMs: pick(data?.governor?.coalesceMs, DEFAULT_GOVERNOR.coalesceMs),
+      minOnScreenMs: pick(data?.governor?.minOnScreenMs, DEFAULT_GOVERNOR.minOnScreenMs),
+      ignoreDuplicates: pick(data?.governor?.ignoreDuplicates, DEFAULT_GOVERNOR.ignoreDuplicates),
+    },
+    voiceGate: {
+      enabled: pick(data?.voiceGate?.enabled, DEFAULT_VOICE_GATE.enabled),
+      threshold: pick(data?.voiceGate?.threshold, DEFAULT_VOICE_GATE.threshold),
+      hangoverMs: pick(data?.voiceGate?.hangoverMs, DEFAULT_VOICE_GATE.hangoverMs),
+    },
+    prompt,
+  };
+};
+
+export function loadSettings(): AppSettings {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SETTINGS_KEY) || 'null');
+    return saved ? normalizeSettings(saved) : DEFAULT_SETTINGS;
+  } catch (e) {
+    return DEFAULT_SETTINGS;
+  }
+}
+
+// Only edited prompt sections are stored; the rest follow the defaults as they change
+const withPromptEdits = (settings: AppSettings) => ({
+  ...settings,
+  prompt: Object.fromEntries(
+    (Object.keys(DEFAULT_PROMPT) as (keyof PromptSections)[])
+      .filter(section => settings.prompt[section] !== DEFAULT_PROMPT[section])
+      .map(section => [section, settings.prompt[section]]),
+  ),
+});
+
+export function saveSettings(settings: AppSettings): void {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(withPromptEdits(settings)));
+}
+
+export function exportProfile(settings: AppSettings): void {
+  // Device ids are specific to this machine and browser profile
+  const profile = { ...withPromptEdits(settings), inputDeviceId: null };
+  downloadFile('inspired-ai-profile.json', JSON.stringify(profile, null, 2), 'application/json');
+}
+
+export function parseProfile(source: string): AppSettings {
+  let data: any;
+  try {
+    data = JSON.parse(source);
+  } catch (e) {
+    throw new Error('Profile is not valid JSON');
+  }
+  if (!data || typeof data !== 'object') throw new Error('Profile is not a settings object');
+  const settings = normalizeSettings(data);
+  const errors = validateSettings(settings);
+  if (errors.length) throw new Error(errors[0]);
+  return settings;
+}
+
+const fillPlaceholders = (text: string, values: Record<string, string>) =>
+  text.replace(/\{(\w+)\}/g, (match, name) => values[name] ?? match);
+
+/** Assembles the system instruction; `extra` (e.g. the sermon plan) goes before the tone section. */
+export function buildSystemInstruction(
+  settings: AppSettings,
+  values: { translation: string; currentReference: string },
+  extra: string,
+): string {
+  const { prompt } = settings;
+  const filled = { ...values, wakePhrase: settings.wakePhrase };
+  const sections = [
+    prompt.identity,
+    prompt.thematicSearch,
+    prompt.verseTracking,
+    settings.autoAdvance ? prompt.autoAdvance : 'AUTO-ADVANCE IS OFF: only change verses when one is mentioned or requested.',
+    prompt.voiceCommands,
+    extra,
+    prompt.tone,
+  ];
+  return sections
+    .map(section => fillPlaceholders(section, filled).trim())
+    .filter(Boolean)
+    .join('\n\n');
+}
@@ -0,0 +1,157 @@
+import { STORES, idbDelete, idbGet, idbPut } from './indexedDb';
+
+export const THEME_KEY = 'inspired-ai:theme';
+// Fired in this window when the theme is saved; other windows hear the storage event
+export const THEME_CHANGE_EVENT = 'inspired-ai:theme-change';
+export const CUSTOM_THEME_ID = 'custom';
+
+export type ThemeMode = 'dark' | 'light';
+export type ThemeAssetKind = 'logo' | 'background';
+
+export interface ThemeLabels {
+  appTitle: string;
+  liveLabel: string;
+  organization: string;
+}
+
+/**
+ * Branding for the console and audience outputs. `mode` applies to the audience
+ * outputs; the operator console always stays dark. Uploaded logo and background
+ * files are kept in IndexedDB, keyed by theme id.
+ */
+export interface Theme {
+  id: string;
+  name: string;
+  mode: ThemeMode;
+  brandColor: string;
+  sansFont: string;
+  serifFont: string;
+  labels: ThemeLabels;
+  hasLogo: boolean;
+  background: 'none' | 'image' | 'video';
+}
+
+export interface ThemeSettings {
+  activeId: string;
+  custom: Theme | null;
+}
+
+export const BUILT_IN_THEMES: Theme[] = [
+  {
+    id: 'inspired',
+    name: 'Inspired',
+    mode: 'dark',
+    brandColor: '#a34981',
+    sansFont: 'Inter',
+    serifFont: 'Playfair Display',
+    labels: { appTitle: 'Inspired AI Live', liveLabel: 'IWC Live', organization: 'IWC' },
+    hasLogo: false,
+    background: 'none',
+  },
+  {
+    id: 'daylight',
+    name: 'Daylight',
+    mode: 'light',
+    brandColor: '#2563eb',
+    sansFont: 'Source Sans 3',
+    serifFont: 'Merriweather',
+    labels: { appTitle: 'Scripture Live', liveLabel: 'Live', organization: '' },
+    hasLogo: false,
+    background: 'none',
+  },
+  {
+    id: 'midnight',
+    name: 'Midnight Gold',
+    mode: 'dark',
+    brandColor: '#c9a227',
+    sansFont: 'Montserrat',
+    serifFont: 'Cormorant Garamond',
+    labels: { appTitle: 'Scripture Live', liveLabel: 'Live', organization: '' },
+    hasLogo: false,
+    background: 'none',
+  },
+];
+
+export const DEFAULT_THEME = BUILT_IN_THEMES[0];
+
+// Fonts index.html already loads
+const PRELOADED_FONTS = new Set(['Inter', 'Playfair Display']);
+
+export function hexToRgbChannels(hex: string): string {
+  const match = hex.trim().match(/^#?([0-9a-f]{6})$/i);
+  if (!match) return '163 73 129';
+  const value = parseInt(match[1], 16);
+  return `${(value >> 16) & 255} ${(value >> 8) & 255} ${value & 255}`;
+}
+
+const fontStack = (family: string, fallback: string) => `'${family.replace(/'/g, '')}', ${fallback}`;
+
+/** Brand color and fonts, set on :root by the ThemeProvider or on a container for previews. */
+export function themeToCssVars(theme: Theme): Record<string, string> {
+  return {
+    '--brand-rgb': hexToRgbChannels(theme.brandColor),
+    '--font-sans': fontStack(theme.sansFont, 'sans-serif'),
+    '--font-serif': fontStack(theme.serifFont, 'serif'),
+  };
+}
+
+// Audience-output colors; only output views set these so the console keeps the dark defaults from index.html
+export function outputCssVars(theme: Theme): Record<string, string> {
+  const light = theme.mode === 'light';
+  return {
+    '--output-bg-rgb': light ? '250 250 249' : '0 0 0',
+    '--output-text-rgb': light ? '24 24 27' : '244 244 245',
+    '--output-active-rgb': light ? hexToRgbChannels(theme.brandColor) : '255 255 255',
+  };
+}
+
+export function ensureFontsLoaded(theme: Theme): void {
+  [theme.sansFont, theme.serifFont].forEach(family => {
+    if (!family.trim() || PRELOADED_FONTS.has(family)) return;
+    const id = `font-${family.replace(/\W+/g, '-').toLowerCase()}`;
+    if (document.getElementById(id)) return;
+    const link = document.createElement('link');
+    link.id = id;
+    link.rel = 'stylesheet';
+    link.href = `https://fonts.googleapis.com/css2?family=${family.trim().replace(/\s+/g, '+')}:ital,wght@0,400;0,700;1,400&display=swap`;
+    document.head.appendChild(link);
+  });
+}
+
+export function applyTheme(theme: Theme, element: HTMLElement = document.documentElement): void {
+  Object.entries(themeToCssVars(theme)).forEach(([name, value]) => element.style.setProperty(name, value));
+  ensureFontsLoaded(theme);
+}
+
+export function loadThemeSettings(): ThemeSettings {
+  try {
+    const saved = JSON.parse(localStorage.getItem(THEME_KEY) || 'null');
+    if (saved && typeof saved.activeId === 'string') {
+      return { activeId: saved.activeId, custom: saved.custom ? { ...DEFAULT_THEME, ...saved.custom, id: CUSTOM_THEME_ID } : null };
+    }
+  } catch (e) {}
+  return { activeId: DEFAULT_THEME.id, custom: null };
+}
+
+export function saveThemeSettings(settings: ThemeSettings): void {
+  // savedAt changes the stored value even when only an uploaded file did, so other windows still get a storage event
+  localStorage.setItem(THEME_KEY, JSON.stringify({ ...settings, savedAt: Date.now() }));
+  window.dispatchEvent(new Event(THEME_CHANGE_EVENT));
+}
+
+export function getActiveTheme(settings: ThemeSettings): Theme {
+  if (settings.activeId === CUSTOM_THEME_ID && settings.custom) return settings.custom;
+  return BUILT_IN_THEMES.find(t => t.id === settings.activeId) ?? DEFAULT_THEME;
+}
+
+const assetKey = (themeId: string, kind: ThemeAssetKind) => `${themeId}:${kind}`;
+
+export function loadThemeAsset(themeId: string, kind: ThemeAssetKind): Promise<Blob | undefined> {
+  return idbGet<Blob>(STORES.themeAssets, assetKey(themeId, kind));
+}
+
+export function saveThemeAsset(themeId: string, kind: ThemeAssetKind, file: Blob | null): Promise<void> {
+  return file
+    ? idbPut(STORES.themeAssets, assetKey(themeId, kind), file)
+    : idbDelete(STORES.themeAssets, assetKey(themeId, kind));
+}
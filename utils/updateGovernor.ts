@@ -0,0 +1,84 @@
+import { VerseData } from '../types';
+import { isSameReference } from './scriptureParser';
+
+export interface GovernorSettings {
+  // Model updates closer together than this collapse into the last one
+  coalesceMs: number;
+  // A verse stays up at least this long before the model may replace it
+  minOnScreenMs: number;
+  ignoreDuplicates: boolean;
+}
+
+export const DEFAULT_GOVERNOR: GovernorSettings = {
+  coalesceMs: 400,
+  minOnScreenMs: 2500,
+  ignoreDuplicates: true,
+};
+
+export const GOVERNOR_LIMITS = {
+  coalesceMs: { min: 0, max: 3000 },
+  minOnScreenMs: { min: 0, max: 30000 },
+};
+
+interface GovernorOptions {
+  getSettings: () => GovernorSettings;
+  // The verse on screen and when it went up
+  getCurrent: () => { verse: VerseData | null; shownAt: number };
+}
+
+interface PendingUpdate {
+  verse: VerseData;
+  resolve: (suppressed: string | null) => void;
+  timer: number;
+}
+
+const isDuplicate = (next: VerseData, current: VerseData | null) => {
+  if (!current || next.translation.toUpperCase() !== current.translation.toUpperCase()) return false;
+  return next.location && current.location ? isSameReference(next.location, current.location) : next.reference === current.reference;
+};
+
+/**
+ * Paces the model's verse updates so bursts of calls do not restart the reveal animation
+ * on every one. `submit` resolves with null once the verse may go live, or with the
+ * reason it was suppressed, which is reported back to the model.
+ */
+export function createUpdateGovernor({ getSettings, getCurrent }: GovernorOptions) {
+  let pending: PendingUpdate | null = null;
+
+  const settle = (suppressed: string | null) => {
+    if (!pending) return;
+    const { resolve, timer } = pending;
+    clearTimeout(timer);
+    pending = null;
+    resolve(suppressed);
+  };
+
+  const release = () => {
+    if (!pending) return;
+    const { minOnScreenMs, ignoreDuplicates } = getSettings();
+    const { verse, shownAt } = getCurrent();
+    const remaining = shownAt + minOnScreenMs - Date.now();
+    if (verse && remaining > 0) {
+      pending.timer = window.setTimeout(release, remaining);
+      return;
+    }
+    // The screen may have changed while this update waited
+    settle(ignoreDuplicates && isDuplicate(pending.verse, verse) ? 'ignored_duplicate_reference' : null);
+  };
+
+  return {
+    submit: (verse: VerseData): Promise<string | null> => {
+      const { coalesceMs, ignoreDuplicates } = getSettings();
+      // Any newer call, even one repeating the current verse, replaces an update still waiting
+      settle('superseded_by_newer_update');
+      if (ignoreDuplicates && isDuplicate(verse, getCurrent().verse)) return Promise.resolve('ignored_duplicate_reference');
+      return new Promise(resolve => {
+        pending = { verse, resolve, timer: window.setTimeout(release, coalesceMs) };
+      });
+    },
+    // Drops a waiting update, e.g. when the operator puts something else up
+    cancel: (reason: string) => settle(reason),
+  };
+}
+
+export type UpdateGovernor = ReturnType<typeof createUpdateGovernor>;
@@ -0,0 +1,69 @@
+import { PassageVerse, ScriptureReference, VerificationStatus, VerseData } from '../types';
+import { ensureTranslation, lookupVerses } from './bibleStore';
+import { formatReference } from './scriptureParser';
+
+export interface VerifiedText {
+  text: string;
+  verification: VerificationStatus;
+  // Numbered verses from the local store, when it had the passage
+  verses?: PassageVerse[];
+}
+
+// Share of words that must line up before model text counts as the canonical verse
+const MATCH_THRESHOLD = 0.9;
+
+const toWords = (text: string) =>
+  text.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, ' ').split(/\s+/).filter(Boolean);
+
+// Longest common word subsequence relative to the longer text, so paraphrases and omissions both score low
+export function textSimilarity(a: string, b: string): number {
+  const left = toWords(a);
+  const right = toWords(b);
+  if (!left.length || !right.length) return 0;
+
+  let previous = new Array(right.length + 1).fill(0);
+  for (let i = 1; i <= left.length; i++) {
+    const current = new Array(right.length + 1).fill(0);
+    for (let j = 1; j <= right.length; j++) {
+      current[j] = left[i - 1] === right[j - 1]
+        ? previous[j - 1] + 1
+        : Math.max(previous[j], current[j - 1]);
+    }
+    previous = current;
+  }
+  return previous[right.length] / Math.max(left.length, right.length);
+}
+
+export async function verifyVerseText(
+  reference: ScriptureReference | null,
+  modelText: string,
+  translation: string,
+): Promise<VerifiedText> {
+  if (!reference) return { text: modelText, verification: VerificationStatus.UNVERIFIED };
+
+  const store = await ensureTranslation(translation);
+  const verses = store && lookupVerses(translation, reference);
+  if (!verses) return { text: modelText, verification: VerificationStatus.UNVERIFIED };
+
+  const canonical = verses.map(v => v.text).join(' ');
+  if (textSimilarity(modelText, canonical) >= MATCH_THRESHOLD) {
+    return { text: canonical, verification: VerificationStatus.VERIFIED, verses };
+  }
+  console.warn(`Model text for ${translation} did not match the local store; showing stored text.`);
+  return { text: canonical, verification: VerificationStatus.CORRECTED, verses };
+}
+
+/** Builds a displayable verse straight from the local store, or null when it lacks the passage. */
+export async function resolveLocalVerse(reference: ScriptureReference, translation: string): Promise<VerseData | null> {
+  await ensureTranslation(translation);
+  const verses = lookupVerses(translation, reference);
+  if (!verses) return null;
+  return {
+    reference: formatReference(reference),
+    text: verses.map(v => v.text).join(' '),
+    translation,
+    location: reference,
+    verification: VerificationStatus.VERIFIED,
+    verses,
+  };
+}
@@ -0,0 +1,59 @@
+export interface VoiceGateSettings {
+  enabled: boolean;
+  // Frame RMS (0..1) at or above which the mic counts as speech
+  threshold: number;
+  // How long streaming continues after the last speech frame, so pauses between words are kept
+  hangoverMs: number;
+}
+
+export const DEFAULT_VOICE_GATE: VoiceGateSettings = {
+  enabled: true,
+  threshold: 0.02,
+  hangoverMs: 800,
+};
+
+export const VOICE_GATE_LIMITS = {
+  threshold: { min: 0.001, max: 0.2 },
+  hangoverMs: { min: 0, max: 5000 },
+};
+
+// Frames held while gated and sent when speech starts, so the first syllable is not clipped
+const PRE_ROLL_FRAMES = 3;
+
+/**
+ * Energy-based voice activity gate for the mic stream. `process` returns the frames to
+ * send now: nothing while gated, and the pre-roll plus the current frame when speech starts.
+ */
+export function createVoiceGate(getSettings: () => VoiceGateSettings) {
+  let lastSpeechAt = -Infinity;
+  let open = false;
+  let preRoll: Int16Array[] = [];
+
+  return {
+    process: (pcm: Int16Array, level: number, now = Date.now()): Int16Array[] => {
+      const { enabled, threshold, hangoverMs } = getSettings();
+      if (!enabled) {
+        open = true;
+        return [pcm];
+      }
+      if (level >= threshold) lastSpeechAt = now;
+      if (now - lastSpeechAt > hangoverMs) {
+        open = false;
+        preRoll = [...preRoll, pcm].slice(-PRE_ROLL_FRAMES);
+        return [];
+      }
+      const frames = open ? [pcm] : [...preRoll, pcm];
+      open = true;
+      preRoll = [];
+      return frames;
+    },
+    // Closes the gate without sending, e.g. while music mode holds the stream
+    reset: () => {
+      lastSpeechAt = -Infinity;
+      open = false;
+      preRoll = [];
+    },
+  };
+}
+
+export type VoiceGate = ReturnType<typeof createVoiceGate>;
@@ -0,0 +1,102 @@
+import { VoiceCommandEntry } from '../types';
+import { STORES, idbGetAll, idbPut } from './indexedDb';
+import { currentServiceId } from './serviceHistory';
+
+export const DEFAULT_WAKE_PHRASE = 'inspired';
+
+// Tool calls that act on the operator console and therefore need the wake phrase
+export const WAKE_GATED_COMMANDS = new Set([
+  'lockDisplay',
+  'unlockDisplay',
+  'nextVerse',
+  'previousVerse',
+  'goToVerse',
+  'readAloud',
+  'setDisplayState',
+]);
+
+// Gated command results that count as honored; 'awaiting_verse_text' means the model supplies the verse next
+export const VOICE_HONORED_RESULTS = new Set(['success', 'awaiting_verse_text']);
+
+// How far back the input transcript is searched for the wake phrase
+const WAKE_WINDOW_MS = 10000;
+// Words allowed between the wake phrase and the command ("inspired, please go back")
+const FILLER_WORDS = new Set(['please', 'um', 'uh', 'er', 'ok', 'okay', 'now']);
+// Leading words of the command that must follow the wake phrase in the transcript
+const COMMAND_MATCH_WORDS = 2;
+
+export interface TranscriptFragment {
+  text: string;
+  at: number;
+}
+
+const toWords = (text: string) => text.toLowerCase().replace(/[^a-z0-9']+/g, ' ').trim().split(' ').filter(Boolean);
+
+// Start indexes of every occurrence of `phrase` within `words`
+const findPhrase = (words: string[], phrase: string[]) =>
+  words.flatMap((_, i) => phrase.every((w, j) => words[i + j] === w) ? [i] : []);
+
+/** Rolling window of input transcription, used to confirm the speaker really said the wake phrase. */
+export function createTranscriptWindow() {
+  let fragments: TranscriptFragment[] = [];
+
+  const prune = (now: number) => {
+    fragments = fragments.filter(f => now - f.at <= WAKE_WINDOW_MS);
+  };
+
+  return {
+    append: (text: string) => {
+      const now = Date.now();
+      prune(now);
+      fragments.push({ text, at: now });
+    },
+    // Null when no transcription arrived recently, e.g. with a scripted backend
+    recent: (): string | null => {
+      prune(Date.now());
+      return fragments.length ? fragments.map(f => f.text).join('') : null;
+    },
+    fragments: (): TranscriptFragment[] => {
+      prune(Date.now());
+      return [...fragments];
+    },
+  };
+}
+
+export type TranscriptWindow = ReturnType<typeof createTranscriptWindow>;
+
+/**
+ * Decides whether a gated command may run. Only the live transcript counts: the wake
+ * phrase must come right before the command the model reports in `utterance`. The model's
+ * own words are never enough, so a command with no transcript behind it is rejected.
+ */
+export function checkWakePhrase(utterance: string, transcript: string | null, wakePhrase: string): string | null {
+  if (!transcript) return 'ignored_no_transcript';
+  const phrase = toWords(wakePhrase);
+  const heard = toWords(transcript);
+  if (!phrase.length) return 'ignored_missing_wake_phrase';
+
+  // The command as reported, without the wake phrase the model may have echoed
+  let command = toWords(utterance);
+  const echoed = findPhrase(command, phrase)[0];
+  if (echoed !== undefined) command = command.slice(echoed + phrase.length);
+  command = command.slice(0, COMMAND_MATCH_WORDS);
+
+  const prefixed = findPhrase(heard, phrase).some(start => {
+    let next = start + phrase.length;
+    while (FILLER_WORDS.has(heard[next]) && !FILLER_WORDS.has(command[0])) next++;
+    if (!command.length) return next < heard.length;
+    return command.every((w, j) => heard[next + j] === w);
+  });
+  return prefixed ? null : 'ignored_missing_wake_phrase';
+}
+
+export function logVoiceCommand(entry: Omit<VoiceCommandEntry, 'id' | 'at'>): void {
+  const now = Date.now();
+  const record: VoiceCommandEntry = { ...entry, id: crypto.randomUUID(), at: now, serviceId: currentServiceId(now) };
+  idbPut(STORES.voiceCommands, record.id, record).catch(err => console.warn('Could not save voice command log:', err));
+}
+
+export async function loadVoiceCommandLog(): Promise<VoiceCommandEntry[]> {
+  const entries = await idbGetAll<VoiceCommandEntry>(STORES.voiceCommands);
+  return entries.sort((a, b) => a.at - b.at);
+}